@@ -17,11 +17,21 @@ import { Colors } from '../../src/constants/Colors';
 import { Layout } from '../../src/constants/Layout';
 import { useAuth } from '../../src/contexts/AuthContext';
 import { useLanguage } from '../../src/contexts/LanguageContext';
+import { usePlayer } from '../../src/contexts/PlayerContext';
 import { Track } from '../../src/types';
-import { getAllTracks, getPublicPlaylists, getUserPlaylists } from '../../src/services/firestore';
+import {
+  getAllTracks,
+  getPublicPlaylists,
+  getUserPlaylists,
+  getTracksByIds,
+  getTrendingTracks,
+  getPopularArtists,
+} from '../../src/services/firestore';
+import { getHistory, recentTrackIds } from '../../src/services/history';
 import { Playlist } from '../../src/types';
 import SectionHeader from '../../src/components/SectionHeader';
 import TrackRow from '../../src/components/TrackRow';
+import RecentCard from '../../src/components/RecentCard';
 import LanguageToggle from '../../src/components/LanguageToggle';
 
 function shuffle<T>(arr: T[]): T[] {
@@ -50,8 +60,12 @@ export default function HomeScreen() {
   const { user } = useAuth();
   const { t } = useLanguage();
   const router = useRouter();
+  const { currentTrack, playTrack } = usePlayer();
   const [filter, setFilter] = useState<FilterType>('all');
   const [allTrks, setAllTrks] = useState<Track[]>([]);
+  const [recentTracks, setRecentTracks] = useState<Track[]>([]);
+  const [rankedTracks, setRankedTracks] = useState<Track[]>([]);
+  const [rankedArtists, setRankedArtists] = useState<ArtistCard[]>([]);
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -61,14 +75,23 @@ export default function HomeScreen() {
     loadData();
   }, [user]);
 
+  // A new track means a new history entry; refresh the shelf
+  useEffect(() => {
+    loadRecent();
+  }, [user, currentTrack?.id]);
+
   async function loadData() {
     try {
-      const [tracks, pubPl, userPl] = await Promise.all([
+      const [tracks, pubPl, userPl, trending, popular] = await Promise.all([
         getAllTracks(100),
         getPublicPlaylists(10).catch(() => []),
         user ? getUserPlaylists(user.id).catch(() => []) : Promise.resolve([]),
+        getTrendingTracks('week', 8).catch(() => []),
+        getPopularArtists(8).catch(() => []),
       ]);
       setAllTrks(tracks);
+      setRankedTracks(trending);
+      setRankedArtists(popular.map(a => ({ name: a.name, image: a.image })));
       const ids = new Set(userPl.map(p => p.id));
       setPlaylists([...userPl, ...pubPl.filter(p => !ids.has(p.id))]);
     } catch (e) {
@@ -78,6 +101,17 @@ export default function HomeScreen() {
     }
   }
 
+  async function loadRecent() {
+    try {
+      const ids = recentTrackIds(await getHistory(user?.id ?? null, 50), 6);
+      const tracks = await getTracksByIds(ids);
+      const byId = new Map(tracks.map(track => [track.id, track]));
+      setRecentTracks(ids.map(id => byId.get(id)).filter((t): t is Track => !!t));
+    } catch (e) {
+      console.error('Error loading recently played:', e);
+    }
+  }
+
   function getGreeting(): string {
     const hour = new Date().getHours();
     if (hour < 12) return t('home.goodMorning');
@@ -85,7 +119,11 @@ export default function HomeScreen() {
     return t('home.goodEvening');
   }
 
-  const trendingTracks = useMemo(() => shuffle(allTrks).slice(0, 8), [allTrks]);
+  // Ranked by weekly plays; random picks until the aggregation has data
+  const trendingTracks = useMemo(
+    () => (rankedTracks.length > 0 ? rankedTracks : shuffle(allTrks).slice(0, 8)),
+    [rankedTracks, allTrks]
+  );
 
   const albumCards = useMemo(() => {
     const map = new Map<string, AlbumCard>();
@@ -98,6 +136,7 @@ export default function HomeScreen() {
   }, [allTrks]);
 
   const artistCards = useMemo(() => {
+    if (rankedArtists.length > 0) return rankedArtists;
     const map = new Map<string, ArtistCard>();
     for (const t of allTrks) {
       if (t.artist && !map.has(t.artist)) {
@@ -105,7 +144,7 @@ export default function HomeScreen() {
       }
     }
     return shuffle([...map.values()]).slice(0, 8);
-  }, [allTrks]);
+  }, [rankedArtists, allTrks]);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -169,6 +208,25 @@ export default function HomeScreen() {
             </View>
           )}
 
+          {/* Recently played — 2 columns */}
+          {filter !== 'playlists' && recentTracks.length > 0 && (
+            <>
+              <SectionHeader title={t('history.title')} onSeeAll={() => router.push('/history')} />
+              <View style={styles.recentGrid}>
+                {recentTracks.map((track) => (
+                  <View key={track.id} style={styles.recentCell}>
+                    <RecentCard
+                      title={track.title}
+                      artwork={track.artwork}
+                      artworkVariants={track.artworkVariants}
+                      onPress={() => playTrack(track, recentTracks)}
+                    />
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
           {isLoading ? (
             <ActivityIndicator size="large" color={Colors.primary} style={{ marginTop: 40 }} />
           ) : (
@@ -462,6 +520,15 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingHorizontal: Layout.padding.sm,
   },
+  recentGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: Layout.padding.xs,
+  },
+  recentCell: {
+    width: '50%',
+    flexDirection: 'row',
+  },
   emptyState: {
     alignItems: 'center',
     paddingTop: 60,
@@ -16,9 +16,11 @@ import { Colors } from '../../src/constants/Colors';
 import { Layout } from '../../src/constants/Layout';
 import { searchCategories } from '../../src/constants/categories';
 import { searchTracksByTitle } from '../../src/services/firestore';
-import { Track } from '../../src/types';
+import { Track, LicenseFilter } from '../../src/types';
 import CategoryCard from '../../src/components/CategoryCard';
 import TrackRow from '../../src/components/TrackRow';
+import LicenseFilterChips from '../../src/components/LicenseFilterChips';
+import { matchesLicenseFilters, trackLicense } from '../../src/utils/license';
 import { useAuth } from '../../src/contexts/AuthContext';
 import { useLanguage } from '../../src/contexts/LanguageContext';
 
@@ -32,6 +34,7 @@ export default function SearchScreen() {
   const router = useRouter();
   const [firestoreTracks, setFirestoreTracks] = useState<Track[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [licenseFilters, setLicenseFilters] = useState<LicenseFilter[]>([]);
 
   useEffect(() => {
     if (!query.trim()) {
@@ -57,12 +60,12 @@ export default function SearchScreen() {
   const results = useMemo(() => {
     if (!query.trim()) return null;
     return {
-      tracks: firestoreTracks,
+      tracks: firestoreTracks.filter(track => matchesLicenseFilters(trackLicense(track), licenseFilters)),
       albums: [] as any[],
       artists: [] as any[],
       playlists: [] as any[],
     };
-  }, [query, firestoreTracks]);
+  }, [query, firestoreTracks, licenseFilters]);
 
   const tabs: { key: Tab; label: string }[] = [
     { key: 'all', label: t('search.everything') },
@@ -128,6 +131,10 @@ export default function SearchScreen() {
               )}
             />
 
+            {(activeTab === 'all' || activeTab === 'tracks') && (
+              <LicenseFilterChips value={licenseFilters} onChange={setLicenseFilters} />
+            )}
+
             {/* Tracks */}
             {(activeTab === 'all' || activeTab === 'tracks') &&
               results.tracks.length > 0 && (
@@ -200,7 +207,9 @@ export default function SearchScreen() {
                 <View style={styles.emptyState}>
                   <Ionicons name="search" size={48} color={Colors.textInactive} />
                   <Text style={styles.emptyText}>
-                    {t('search.noResults')} "{query}"
+                    {firestoreTracks.length > 0
+                      ? t('license.noMatches')
+                      : `${t('search.noResults')} "${query}"`}
                   </Text>
                 </View>
               )}
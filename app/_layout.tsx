@@ -8,7 +8,9 @@ import { PlayerProvider } from '../src/contexts/PlayerContext';
 import { LanguageProvider } from '../src/contexts/LanguageContext';
 import { usePlayer } from '../src/contexts/PlayerContext';
 import { Colors } from '../src/constants/Colors';
+import { Layout } from '../src/constants/Layout';
 import MiniPlayer from '../src/components/MiniPlayer';
+import PlaybackToast from '../src/components/PlaybackToast';
 
 const MAX_APP_WIDTH = 900;
 
@@ -45,8 +47,10 @@ function AppContent() {
           <Stack.Screen name="playlist/[id]" options={{ headerShown: false }} />
           <Stack.Screen name="album/[name]" options={{ headerShown: false }} />
           <Stack.Screen name="artist/[name]" options={{ headerShown: false }} />
+          <Stack.Screen name="track/[id]" options={{ headerShown: false }} />
           <Stack.Screen name="upload" options={{ headerShown: false }} />
           <Stack.Screen name="profile" options={{ headerShown: false }} />
+          <Stack.Screen name="history" options={{ headerShown: false }} />
           <Stack.Screen name="auth" options={{ headerShown: false }} />
           <Stack.Screen name="+not-found" options={{ headerShown: false }} />
         </Stack>
@@ -55,6 +59,9 @@ function AppContent() {
             <MiniPlayer />
           </View>
         )}
+        <View style={[styles.toast, { top: insets.top + Layout.padding.sm }]} pointerEvents="box-none">
+          <PlaybackToast />
+        </View>
       </View>
     </View>
   );
@@ -91,4 +98,9 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
   },
+  toast: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
 });
@@ -25,8 +25,11 @@ import { Layout } from '../../src/constants/Layout';
 import { usePlayer } from '../../src/contexts/PlayerContext';
 import { useAuth } from '../../src/contexts/AuthContext';
 import { useLanguage } from '../../src/contexts/LanguageContext';
-import { Track } from '../../src/types';
+import { Track, LicenseFilter } from '../../src/types';
 import TrackRow from '../../src/components/TrackRow';
+import LicenseFilterChips from '../../src/components/LicenseFilterChips';
+import CreditsSheet from '../../src/components/CreditsSheet';
+import { matchesLicenseFilters, trackLicense } from '../../src/utils/license';
 import {
   getTracksByAlbum,
   updateTrackMetadata,
@@ -50,9 +53,11 @@ export default function AlbumScreen() {
   const { t } = useLanguage();
   const [tracks, setTracks] = useState<Track[]>([]);
   const [loading, setLoading] = useState(true);
+  const [licenseFilters, setLicenseFilters] = useState<LicenseFilter[]>([]);
 
   // CRUD state
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showCredits, setShowCredits] = useState(false);
   const [editAlbumName, setEditAlbumName] = useState('');
   const [editGenre, setEditGenre] = useState('');
   const [editCoverUri, setEditCoverUri] = useState('');
@@ -128,6 +133,11 @@ export default function AlbumScreen() {
   const artwork = tracks.length > 0 ? tracks[0].artwork : '';
   const genre = tracks.length > 0 ? tracks[0].genre : '';
 
+  const visibleTracks = useMemo(
+    () => tracks.filter(track => matchesLicenseFilters(trackLicense(track), licenseFilters)),
+    [tracks, licenseFilters]
+  );
+
   const totalDuration = useMemo(() => {
     const total = tracks.reduce((sum, t) => sum + t.duration, 0);
     const hours = Math.floor(total / 3600);
@@ -171,15 +181,14 @@ export default function AlbumScreen() {
     if (!editAlbumName.trim()) return;
     setIsSaving(true);
     try {
-      let newArtworkUrl = '';
+      const updates: Partial<Track> = {};
       if (editCoverUri && user) {
-        newArtworkUrl = await uploadPlaylistCover(user.id, editCoverUri);
+        const cover = await uploadPlaylistCover(user.id, editCoverUri);
+        updates.artwork = cover.url;
+        updates.artworkVariants = cover.variants;
       }
-
-      const updates: Partial<Track> = {};
       if (editAlbumName.trim() !== name) updates.album = editAlbumName.trim();
       if (editGenre.trim() !== genre) updates.genre = editGenre.trim();
-      if (newArtworkUrl) updates.artwork = newArtworkUrl;
 
       if (Object.keys(updates).length > 0) {
         await Promise.all(tracks.map(track => updateTrackMetadata(track.id, updates)));
@@ -323,7 +332,7 @@ export default function AlbumScreen() {
   return (
     <SafeAreaView style={styles.container}>
       <FlatList
-        data={tracks}
+        data={visibleTracks}
         keyExtractor={(item) => item.id}
         showsVerticalScrollIndicator={false}
         ListHeaderComponent={
@@ -390,6 +399,10 @@ export default function AlbumScreen() {
                   <Ionicons name="share-outline" size={24} color={Colors.textSecondary} />
                 </TouchableOpacity>
 
+                <TouchableOpacity onPress={() => setShowCredits(true)} disabled={tracks.length === 0}>
+                  <Ionicons name="document-text-outline" size={24} color={Colors.textSecondary} />
+                </TouchableOpacity>
+
                 {/* Offline sync button */}
                 {Platform.OS !== 'web' && (
                   <TouchableOpacity onPress={handleLongPress} disabled={isSyncing}>
@@ -422,8 +435,8 @@ export default function AlbumScreen() {
                 <TouchableOpacity
                   style={styles.shuffleButton}
                   onPress={() => {
-                    if (tracks.length > 0) {
-                      const shuffled = [...tracks].sort(() => Math.random() - 0.5);
+                    if (visibleTracks.length > 0) {
+                      const shuffled = [...visibleTracks].sort(() => Math.random() - 0.5);
                       playQueue(shuffled);
                     }
                   }}
@@ -434,8 +447,8 @@ export default function AlbumScreen() {
                 <TouchableOpacity
                   style={styles.playButton}
                   onPress={() => {
-                    if (tracks.length > 0) {
-                      playQueue(tracks);
+                    if (visibleTracks.length > 0) {
+                      playQueue(visibleTracks);
                     }
                   }}
                 >
@@ -443,12 +456,19 @@ export default function AlbumScreen() {
                 </TouchableOpacity>
               </View>
             </LinearGradient>
+
+            <LicenseFilterChips value={licenseFilters} onChange={setLicenseFilters} />
           </>
         }
+        ListEmptyComponent={
+          licenseFilters.length > 0 ? (
+            <Text style={styles.emptyText}>{t('license.noMatches')}</Text>
+          ) : null
+        }
         renderItem={({ item, index }) => (
           <TrackRow
             track={item}
-            trackList={tracks}
+            trackList={visibleTracks}
             index={index}
             showIndex
             isOffline={!!offlineMap[item.id]}
@@ -527,6 +547,13 @@ export default function AlbumScreen() {
           </View>
         </View>
       </Modal>
+
+      <CreditsSheet
+        title={name || ''}
+        tracks={tracks}
+        visible={showCredits}
+        onClose={() => setShowCredits(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -639,6 +666,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingLeft: 2,
   },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: Layout.padding.lg,
+  },
   footer: {
     paddingHorizontal: Layout.padding.md,
     paddingTop: Layout.padding.xl,
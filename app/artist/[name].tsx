@@ -17,10 +17,17 @@ import { Colors } from '../../src/constants/Colors';
 import { Layout } from '../../src/constants/Layout';
 import { usePlayer } from '../../src/contexts/PlayerContext';
 import { useLanguage } from '../../src/contexts/LanguageContext';
-import { Track } from '../../src/types';
+import { Track, Artist, LicenseFilter } from '../../src/types';
 import TrackRow from '../../src/components/TrackRow';
 import SectionHeader from '../../src/components/SectionHeader';
-import { getTracksByArtist } from '../../src/services/firestore';
+import LicenseFilterChips from '../../src/components/LicenseFilterChips';
+import {
+  getTracksByArtist,
+  getTracksByIds,
+  getDerivativesOf,
+  getArtistByName,
+} from '../../src/services/firestore';
+import { matchesLicenseFilters, trackLicense } from '../../src/utils/license';
 
 interface AlbumGroup {
   name: string;
@@ -32,9 +39,13 @@ export default function ArtistScreen() {
   const { name } = useLocalSearchParams<{ name: string }>();
   const router = useRouter();
   const { playQueue } = usePlayer();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
+  const [artist, setArtist] = useState<Artist | null>(null);
   const [tracks, setTracks] = useState<Track[]>([]);
   const [loading, setLoading] = useState(true);
+  const [licenseFilters, setLicenseFilters] = useState<LicenseFilter[]>([]);
+  const [builtOn, setBuiltOn] = useState<Track[]>([]);
+  const [remixes, setRemixes] = useState<Track[]>([]);
 
   useEffect(() => {
     loadArtist();
@@ -43,8 +54,14 @@ export default function ArtistScreen() {
   async function loadArtist() {
     if (!name) return;
     try {
-      const result = await getTracksByArtist(name);
-      setTracks(result);
+      const [result, stats] = await Promise.all([
+        getTracksByArtist(name),
+        getArtistByName(name).catch(() => null),
+      ]);
+      setArtist(stats);
+      // Most played this month first; the sort is stable, so unplayed tracks keep their order
+      setTracks([...result].sort((a, b) => (b.plays?.month ?? 0) - (a.plays?.month ?? 0)));
+      loadLineage(result);
     } catch (e) {
       console.error('Error loading artist:', e);
     } finally {
@@ -52,7 +69,30 @@ export default function ArtistScreen() {
     }
   }
 
-  const artistImage = tracks.length > 0 ? tracks[0].artwork : '';
+  // Tracks by others that this artist built on, and that built on this artist
+  async function loadLineage(artistTracks: Track[]) {
+    const ownIds = new Set(artistTracks.map(track => track.id));
+    const sourceIds = [...new Set(artistTracks.flatMap(track => track.derivedFromIds || []))]
+      .filter(id => !ownIds.has(id));
+    try {
+      const [sources, derivatives] = await Promise.all([
+        getTracksByIds(sourceIds),
+        getDerivativesOf([...ownIds]),
+      ]);
+      setBuiltOn(sources);
+      setRemixes(derivatives.filter(track => track.artist !== name));
+    } catch (e) {
+      console.error('Error loading remix lineage:', e);
+    }
+  }
+
+  const artistImage = artist?.image || (tracks.length > 0 ? tracks[0].artwork : '');
+  const hasPlays = tracks.some(track => (track.plays?.month ?? 0) > 0);
+
+  const visibleTracks = useMemo(
+    () => tracks.filter(track => matchesLicenseFilters(trackLicense(track), licenseFilters)),
+    [tracks, licenseFilters]
+  );
 
   const albums = useMemo(() => {
     const map = new Map<string, AlbumGroup>();
@@ -102,7 +142,7 @@ export default function ArtistScreen() {
   return (
     <SafeAreaView style={styles.container}>
       <FlatList
-        data={tracks}
+        data={visibleTracks}
         keyExtractor={(item) => item.id}
         showsVerticalScrollIndicator={false}
         ListHeaderComponent={
@@ -126,6 +166,12 @@ export default function ArtistScreen() {
               </View>
 
               <Text style={styles.artistName}>{name}</Text>
+              {!!artist?.monthlyListeners && (
+                <Text style={styles.artistListeners}>
+                  {artist.monthlyListeners.toLocaleString(language === 'pt' ? 'pt-BR' : 'en-US')}{' '}
+                  {t('artist.monthlyListeners')}
+                </Text>
+              )}
               <Text style={styles.artistMeta}>
                 {albums.length} {t('artist.albums')} · {tracks.length} {t('artist.songs')}
                 {totalDuration !== '0 min' ? ` · ${totalDuration}` : ''}
@@ -141,8 +187,8 @@ export default function ArtistScreen() {
                 <TouchableOpacity
                   style={styles.shuffleButton}
                   onPress={() => {
-                    if (tracks.length > 0) {
-                      const shuffled = [...tracks].sort(() => Math.random() - 0.5);
+                    if (visibleTracks.length > 0) {
+                      const shuffled = [...visibleTracks].sort(() => Math.random() - 0.5);
                       playQueue(shuffled);
                     }
                   }}
@@ -153,8 +199,8 @@ export default function ArtistScreen() {
                 <TouchableOpacity
                   style={styles.playButton}
                   onPress={() => {
-                    if (tracks.length > 0) {
-                      playQueue(tracks);
+                    if (visibleTracks.length > 0) {
+                      playQueue(visibleTracks);
                     }
                   }}
                 >
@@ -188,19 +234,45 @@ export default function ArtistScreen() {
               </>
             )}
 
-            <SectionHeader title={t('artist.tracks')} />
+            <SectionHeader title={hasPlays ? t('artist.popular') : t('artist.tracks')} />
+            <LicenseFilterChips value={licenseFilters} onChange={setLicenseFilters} />
           </>
         }
+        ListEmptyComponent={
+          licenseFilters.length > 0 ? (
+            <Text style={styles.emptyText}>{t('license.noMatches')}</Text>
+          ) : null
+        }
         renderItem={({ item, index }) => (
           <TrackRow
             track={item}
-            trackList={tracks}
+            trackList={visibleTracks}
             index={index}
             showIndex
           />
         )}
         ListFooterComponent={
-          <View style={{ height: Layout.miniPlayerHeight + 30 }} />
+          <>
+            {builtOn.length > 0 && (
+              <>
+                <SectionHeader title={t('artist.builtOn')} />
+                {builtOn.map(track => (
+                  <TrackRow key={track.id} track={track} trackList={builtOn} />
+                ))}
+              </>
+            )}
+
+            {remixes.length > 0 && (
+              <>
+                <SectionHeader title={t('artist.remixes')} />
+                {remixes.map(track => (
+                  <TrackRow key={track.id} track={track} trackList={remixes} />
+                ))}
+              </>
+            )}
+
+            <View style={{ height: Layout.miniPlayerHeight + 30 }} />
+          </>
         }
       />
     </SafeAreaView>
@@ -212,6 +284,12 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background,
   },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: Layout.padding.lg,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -248,6 +326,13 @@ const styles = StyleSheet.create({
     marginTop: Layout.padding.sm,
     textAlign: 'center',
   },
+  artistListeners: {
+    color: Colors.textPrimary,
+    fontSize: 13,
+    paddingHorizontal: Layout.padding.md,
+    marginTop: Layout.padding.xs,
+    textAlign: 'center',
+  },
   artistMeta: {
     color: Colors.textSecondary,
     fontSize: 12,
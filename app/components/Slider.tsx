@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -12,9 +12,28 @@ import { Colors } from '../../src/constants/Colors';
 interface SliderProps {
   value: number; // 0 to 1
   onValueChange: (value: number) => void;
+  waveform?: number[]; // 0 to 1 peaks; renders bars instead of a plain track
 }
 
-export default function Slider({ value, onValueChange }: SliderProps) {
+const WAVEFORM_HEIGHT = 40;
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+
+/** Downsamples peaks to one bar per BAR_WIDTH + BAR_GAP pixels, keeping the max. */
+function fitWaveform(peaks: number[], width: number): number[] {
+  const count = Math.floor(width / (BAR_WIDTH + BAR_GAP));
+  if (count <= 0) return [];
+  if (peaks.length <= count) return peaks;
+  const bars: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor((i * peaks.length) / count);
+    const end = Math.floor(((i + 1) * peaks.length) / count);
+    bars.push(Math.max(...peaks.slice(start, Math.max(end, start + 1))));
+  }
+  return bars;
+}
+
+export default function Slider({ value, onValueChange, waveform }: SliderProps) {
   const [width, setWidth] = useState(0);
   const [dragging, setDragging] = useState(false);
   const [dragValue, setDragValue] = useState(0);
@@ -42,21 +61,46 @@ export default function Slider({ value, onValueChange }: SliderProps) {
   ).current;
 
   const displayValue = dragging ? dragValue : value;
+  const bars = useMemo(
+    () => (waveform && waveform.length > 0 ? fitWaveform(waveform, width) : []),
+    [waveform, width]
+  );
+  const showWaveform = bars.length > 0;
 
   return (
     <View
-      style={styles.container}
+      style={[styles.container, showWaveform && styles.waveformContainer]}
       onLayout={(e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width)}
       {...panResponder.panHandlers}
     >
-      <View style={styles.track}>
-        <View style={[styles.fill, { width: `${displayValue * 100}%` }]} />
-      </View>
+      {showWaveform ? (
+        <View style={styles.waveform}>
+          {bars.map((peak, i) => (
+            <View
+              key={i}
+              style={[
+                styles.bar,
+                {
+                  height: Math.max(2, peak * WAVEFORM_HEIGHT),
+                  backgroundColor: (i + 0.5) / bars.length <= displayValue
+                    ? Colors.textPrimary
+                    : Colors.inactive,
+                },
+              ]}
+            />
+          ))}
+        </View>
+      ) : (
+        <View style={styles.track}>
+          <View style={[styles.fill, { width: `${displayValue * 100}%` }]} />
+        </View>
+      )}
       <View
         style={[
           styles.thumb,
           {
             left: displayValue * width - 6,
+            top: showWaveform ? (WAVEFORM_HEIGHT - 12) / 2 : 6,
             opacity: dragging ? 1 : 0,
           },
         ]}
@@ -70,6 +114,19 @@ const styles = StyleSheet.create({
     height: 24,
     justifyContent: 'center',
   },
+  waveformContainer: {
+    height: WAVEFORM_HEIGHT,
+  },
+  waveform: {
+    height: WAVEFORM_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  bar: {
+    width: BAR_WIDTH,
+    borderRadius: 1,
+  },
   track: {
     height: 4,
     backgroundColor: Colors.inactive,
@@ -87,6 +144,5 @@ const styles = StyleSheet.create({
     height: 12,
     borderRadius: 6,
     backgroundColor: Colors.textPrimary,
-    top: 6,
   },
 });
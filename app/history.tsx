@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../src/constants/Colors';
+import { Layout } from '../src/constants/Layout';
+import { useAuth } from '../src/contexts/AuthContext';
+import { useLanguage } from '../src/contexts/LanguageContext';
+import { usePlayer } from '../src/contexts/PlayerContext';
+import { HistoryEntry, Track } from '../src/types';
+import { getHistory, deleteHistoryEntry, clearHistory, recentTrackIds } from '../src/services/history';
+import { getTracksByIds } from '../src/services/firestore';
+import { artworkFor } from '../src/utils/artwork';
+
+const ARTWORK_SIZE = 48;
+
+export default function HistoryScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const { playTrack } = usePlayer();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [tracks, setTracks] = useState<Record<string, Track>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [user]);
+
+  async function loadHistory() {
+    try {
+      const history = await getHistory(user?.id ?? null, 200);
+      setEntries(history);
+      const found = await getTracksByIds(recentTrackIds(history, history.length));
+      setTracks(Object.fromEntries(found.map(track => [track.id, track])));
+    } catch (e) {
+      console.error('Error loading history:', e);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleDelete(entry: HistoryEntry) {
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+    try {
+      await deleteHistoryEntry(user?.id ?? null, entry.id);
+    } catch (e) {
+      console.error('Error deleting history entry:', e);
+    }
+  }
+
+  function handleClear() {
+    const confirmClear = async () => {
+      setEntries([]);
+      try {
+        await clearHistory(user?.id ?? null);
+      } catch (e) {
+        console.error('Error clearing history:', e);
+      }
+    };
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(t('history.clearConfirm'))) {
+        confirmClear();
+      }
+    } else {
+      Alert.alert(t('history.clear'), t('history.clearConfirm'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('history.clear'), style: 'destructive', onPress: confirmClear },
+      ]);
+    }
+  }
+
+  function playEntry(entry: HistoryEntry) {
+    const track = tracks[entry.trackId];
+    if (!track) return;
+    const list = recentTrackIds(entries, entries.length)
+      .map(id => tracks[id])
+      .filter((t): t is Track => !!t);
+    playTrack(track, list);
+  }
+
+  function formatPlayedAt(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(language === 'pt' ? 'pt-BR' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={Colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('history.title')}</Text>
+        <TouchableOpacity onPress={handleClear} disabled={entries.length === 0} style={styles.backButton}>
+          <Ionicons
+            name="trash-outline"
+            size={22}
+            color={entries.length > 0 ? Colors.textPrimary : Colors.textInactive}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color={Colors.primary} style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="time-outline" size={48} color={Colors.textInactive} />
+              <Text style={styles.emptyText}>{t('history.empty')}</Text>
+            </View>
+          }
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => playEntry(item)}
+              activeOpacity={0.7}
+            >
+              <Image source={{ uri: artworkFor(item.artwork, undefined, ARTWORK_SIZE) }} style={styles.artwork} />
+              <View style={styles.info}>
+                <Text style={styles.title} numberOfLines={1}>{item.title}</Text>
+                <Text style={styles.meta} numberOfLines={1}>
+                  {item.artist} · {formatPlayedAt(item.startedAt)}
+                  {item.endedBy === 'skip' && !item.counted ? ` · ${t('history.skipped')}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDelete(item)} style={styles.deleteButton}>
+                <Ionicons name="close" size={20} color={Colors.textSecondary} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          )}
+          ListFooterComponent={
+            <View style={{ height: Layout.miniPlayerHeight + 30 }} />
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Layout.padding.md,
+    paddingVertical: Layout.padding.sm,
+  },
+  backButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Layout.padding.sm,
+    paddingHorizontal: Layout.padding.md,
+  },
+  artwork: {
+    width: ARTWORK_SIZE,
+    height: ARTWORK_SIZE,
+    borderRadius: Layout.borderRadius.sm,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  info: {
+    flex: 1,
+    marginLeft: Layout.padding.sm,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  meta: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: Layout.padding.sm,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: 16,
+    marginTop: Layout.padding.md,
+  },
+});
@@ -16,9 +16,15 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import Slider from './components/Slider';
 import { usePlayer } from '../src/contexts/PlayerContext';
+import { useLanguage } from '../src/contexts/LanguageContext';
 import { Colors } from '../src/constants/Colors';
 import { Layout } from '../src/constants/Layout';
-import { formatDuration } from '../src/utils/format';
+import { formatDuration, formatRate } from '../src/utils/format';
+import { artworkFor } from '../src/utils/artwork';
+import { trackLicenseLabel } from '../src/utils/license';
+import LicenseSheet from '../src/components/LicenseSheet';
+import SleepTimerSheet from '../src/components/SleepTimerSheet';
+import PlaybackRateSheet from '../src/components/PlaybackRateSheet';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const ARTWORK_SIZE = SCREEN_WIDTH - 80;
@@ -37,9 +43,19 @@ export default function PlayerScreen() {
     seekTo,
     toggleShuffle,
     toggleRepeat,
+    sleepTimer,
+    sleepRemaining,
+    rate,
+    resumeOffer,
+    acceptResume,
+    dismissResume,
   } = usePlayer();
   const router = useRouter();
+  const { t } = useLanguage();
   const [liked, setLiked] = useState(false);
+  const [showLicense, setShowLicense] = useState(false);
+  const [showSleepTimer, setShowSleepTimer] = useState(false);
+  const [showRate, setShowRate] = useState(false);
 
   const panX = useRef(new Animated.Value(0)).current;
   const panResponder = useRef(
@@ -76,11 +92,13 @@ export default function PlayerScreen() {
     );
   }
 
+  const license = trackLicenseLabel(currentTrack);
+
   async function handleShare() {
     if (!currentTrack) return;
     try {
       await Share.share({
-        message: `Ouça "${currentTrack.title}" de ${currentTrack.artist} no Spotfly! 🎵\nShare, Build, Share - ${currentTrack.license}`,
+        message: `Ouça "${currentTrack.title}" de ${currentTrack.artist} no Spotfly! 🎵\nShare, Build, Share - ${license}`,
       });
     } catch (e) {
       console.error('Error sharing:', e);
@@ -103,7 +121,7 @@ export default function PlayerScreen() {
           <View style={styles.headerCenter}>
             <Text style={styles.headerLabel}>TOCANDO DO</Text>
             <Text style={styles.headerTitle} numberOfLines={1}>
-              {currentTrack.album}
+              {currentTrack.autoplay ? t('playback.autoplay') : currentTrack.album}
             </Text>
           </View>
           <TouchableOpacity onPress={handleShare} style={styles.headerButton}>
@@ -118,7 +136,7 @@ export default function PlayerScreen() {
             style={{ transform: [{ translateX: panX }] }}
           >
             <Image
-              source={{ uri: currentTrack.artwork }}
+              source={{ uri: artworkFor(currentTrack.artwork, currentTrack.artworkVariants, ARTWORK_SIZE) }}
               style={styles.artwork}
             />
           </Animated.View>
@@ -126,14 +144,17 @@ export default function PlayerScreen() {
 
         {/* Track Info */}
         <View style={styles.trackInfo}>
-          <View style={styles.trackInfoLeft}>
+          <TouchableOpacity
+            style={styles.trackInfoLeft}
+            onPress={() => router.push(`/track/${encodeURIComponent(currentTrack.id)}`)}
+          >
             <Text style={styles.trackTitle} numberOfLines={1}>
               {currentTrack.title}
             </Text>
             <Text style={styles.trackArtist} numberOfLines={1}>
               {currentTrack.artist}
             </Text>
-          </View>
+          </TouchableOpacity>
           <TouchableOpacity onPress={() => setLiked(!liked)}>
             <Ionicons
               name={liked ? 'heart' : 'heart-outline'}
@@ -143,11 +164,27 @@ export default function PlayerScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Resume where the listener stopped last time (long tracks) */}
+        {resumeOffer && (
+          <View style={styles.resumeBanner}>
+            <TouchableOpacity style={styles.resumeButton} onPress={acceptResume}>
+              <Ionicons name="play-forward" size={16} color={Colors.background} />
+              <Text style={styles.resumeText}>
+                {t('resume.from')} {formatDuration(resumeOffer.position)}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={dismissResume} style={styles.resumeDismiss}>
+              <Ionicons name="close" size={18} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Progress Bar */}
         <View style={styles.progressContainer}>
           <Slider
             value={progress}
             onValueChange={(val) => seekTo(val * duration)}
+            waveform={currentTrack.waveform}
           />
           <View style={styles.timeRow}>
             <Text style={styles.timeText}>{formatDuration(Math.floor(position))}</Text>
@@ -200,15 +237,38 @@ export default function PlayerScreen() {
           <TouchableOpacity>
             <Ionicons name="phone-portrait-outline" size={20} color={Colors.textSecondary} />
           </TouchableOpacity>
-          <View style={styles.licenseBadge}>
+          <TouchableOpacity style={styles.licenseBadge} onPress={() => setShowLicense(true)}>
             <Ionicons name="shield-checkmark" size={14} color={Colors.primary} />
-            <Text style={styles.licenseText}>{currentTrack.license}</Text>
-          </View>
-          <TouchableOpacity>
-            <Ionicons name="list" size={22} color={Colors.textSecondary} />
+            <Text style={styles.licenseText} numberOfLines={1}>{license}</Text>
           </TouchableOpacity>
+          <View style={styles.bottomGroup}>
+            <TouchableOpacity onPress={() => setShowRate(true)}>
+              <Text style={[styles.rateText, rate !== 1 && styles.rateTextActive]}>{formatRate(rate)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.sleepButton} onPress={() => setShowSleepTimer(true)}>
+              <Ionicons
+                name={sleepTimer ? 'moon' : 'moon-outline'}
+                size={20}
+                color={sleepTimer ? Colors.primary : Colors.textSecondary}
+              />
+              {sleepRemaining !== null && (
+                <Text style={styles.sleepText}>{formatDuration(Math.ceil(sleepRemaining))}</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity>
+              <Ionicons name="list" size={22} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
         </View>
       </SafeAreaView>
+
+      <LicenseSheet
+        track={currentTrack}
+        visible={showLicense}
+        onClose={() => setShowLicense(false)}
+      />
+      <SleepTimerSheet visible={showSleepTimer} onClose={() => setShowSleepTimer(false)} />
+      <PlaybackRateSheet visible={showRate} onClose={() => setShowRate(false)} />
     </LinearGradient>
   );
 }
@@ -340,6 +400,52 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: Layout.padding.lg,
   },
+  resumeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resumeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: Layout.borderRadius.round,
+    paddingHorizontal: Layout.padding.md,
+    paddingVertical: Layout.padding.xs,
+    gap: Layout.padding.xs,
+  },
+  resumeText: {
+    color: Colors.background,
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  resumeDismiss: {
+    padding: Layout.padding.xs,
+    marginLeft: Layout.padding.xs,
+  },
+  bottomGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Layout.padding.md,
+  },
+  rateText: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  rateTextActive: {
+    color: Colors.primary,
+  },
+  sleepButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sleepText: {
+    color: Colors.primary,
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   licenseBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -347,6 +453,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: Layout.padding.sm,
     paddingVertical: 4,
     borderRadius: Layout.borderRadius.round,
+    maxWidth: '60%',
   },
   licenseText: {
     color: Colors.primary,
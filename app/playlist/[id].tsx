@@ -16,9 +16,11 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '../../src/constants/Colors';
 import { Layout } from '../../src/constants/Layout';
 import { usePlayer } from '../../src/contexts/PlayerContext';
+import { useLanguage } from '../../src/contexts/LanguageContext';
 import { formatDuration } from '../../src/utils/format';
 import { Playlist, Track } from '../../src/types';
 import TrackRow from '../../src/components/TrackRow';
+import CreditsSheet from '../../src/components/CreditsSheet';
 import { loadData, saveData, KEYS } from '../../src/services/storage';
 import { getPlaylist as firestoreGetPlaylist, getTracksByIds as firestoreGetTracksByIds } from '../../src/services/firestore';
 
@@ -26,8 +28,10 @@ export default function PlaylistScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { playQueue, playTrack } = usePlayer();
+  const { t } = useLanguage();
   const [playlist, setPlaylist] = useState<Playlist | null>(null);
   const [playlistTracks, setPlaylistTracks] = useState<Track[]>([]);
+  const [showCredits, setShowCredits] = useState(false);
 
   useEffect(() => {
     loadPlaylist();
@@ -146,6 +150,12 @@ export default function PlaylistScreen() {
                 <TouchableOpacity onPress={handleShare}>
                   <Ionicons name="share-outline" size={24} color={Colors.textSecondary} />
                 </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => setShowCredits(true)}
+                  disabled={playlistTracks.length === 0}
+                >
+                  <Ionicons name="document-text-outline" size={24} color={Colors.textSecondary} />
+                </TouchableOpacity>
                 <TouchableOpacity onPress={() => {}}>
                   <Ionicons name="ellipsis-horizontal" size={24} color={Colors.textSecondary} />
                 </TouchableOpacity>
@@ -184,7 +194,9 @@ export default function PlaylistScreen() {
             trackList={playlistTracks}
             index={index}
             showIndex
-            onOptionsPress={(track) => handleRemoveTrack(track)}
+            options={[
+              { label: t('library.removeFromPlaylist'), icon: 'remove-circle-outline', onPress: handleRemoveTrack, destructive: true },
+            ]}
           />
         )}
         ListFooterComponent={
@@ -199,6 +211,13 @@ export default function PlaylistScreen() {
           </View>
         }
       />
+
+      <CreditsSheet
+        title={playlist.title}
+        tracks={playlistTracks}
+        visible={showCredits}
+        onClose={() => setShowCredits(false)}
+      />
     </SafeAreaView>
   );
 }
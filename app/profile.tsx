@@ -7,6 +7,7 @@ import {
   Alert,
   Platform,
   Image,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -15,11 +16,14 @@ import { Colors } from '../src/constants/Colors';
 import { Layout } from '../src/constants/Layout';
 import { useAuth } from '../src/contexts/AuthContext';
 import { useLanguage } from '../src/contexts/LanguageContext';
+import { usePlayer, MAX_CROSSFADE_SECONDS } from '../src/contexts/PlayerContext';
 import LanguageToggle from '../src/components/LanguageToggle';
+import SegmentedToggle from '../src/components/SegmentedToggle';
 
 export default function ProfileScreen() {
   const { user, signOut } = useAuth();
   const { t } = useLanguage();
+  const { settings, updateSettings } = usePlayer();
   const router = useRouter();
 
   function handleLogout() {
@@ -72,6 +76,80 @@ export default function ProfileScreen() {
           <LanguageToggle />
         </View>
 
+        {/* Volume normalization */}
+        <View style={styles.settingRow}>
+          <View style={styles.settingLeft}>
+            <Ionicons name="volume-medium-outline" size={22} color={Colors.textPrimary} />
+            <Text style={styles.settingLabel}>{t('profile.normalization')}</Text>
+          </View>
+          <SegmentedToggle
+            options={[
+              { value: 'off', label: t('profile.normalizationOff') },
+              { value: 'track', label: t('profile.normalizationTrack') },
+              { value: 'album', label: t('profile.normalizationAlbum') },
+            ]}
+            value={settings.normalization}
+            onChange={(normalization) => updateSettings({ normalization })}
+          />
+        </View>
+
+        {/* Crossfade */}
+        <View style={styles.settingRow}>
+          <View style={styles.settingLeft}>
+            <Ionicons name="git-merge-outline" size={22} color={Colors.textPrimary} />
+            <View>
+              <Text style={styles.settingLabel}>{t('profile.crossfade')}</Text>
+              <Text style={styles.settingHint}>
+                {settings.crossfadeSeconds === 0 ? t('profile.crossfadeGapless') : t('profile.crossfadeHint')}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => updateSettings({ crossfadeSeconds: Math.max(0, settings.crossfadeSeconds - 1) })}
+              disabled={settings.crossfadeSeconds === 0}
+            >
+              <Ionicons
+                name="remove"
+                size={18}
+                color={settings.crossfadeSeconds === 0 ? Colors.textInactive : Colors.textPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{settings.crossfadeSeconds} s</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() =>
+                updateSettings({ crossfadeSeconds: Math.min(MAX_CROSSFADE_SECONDS, settings.crossfadeSeconds + 1) })
+              }
+              disabled={settings.crossfadeSeconds === MAX_CROSSFADE_SECONDS}
+            >
+              <Ionicons
+                name="add"
+                size={18}
+                color={settings.crossfadeSeconds === MAX_CROSSFADE_SECONDS ? Colors.textInactive : Colors.textPrimary}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Autoplay */}
+        <View style={styles.settingRow}>
+          <View style={styles.settingLeft}>
+            <Ionicons name="radio-outline" size={22} color={Colors.textPrimary} />
+            <View>
+              <Text style={styles.settingLabel}>{t('profile.autoplay')}</Text>
+              <Text style={styles.settingHint}>{t('profile.autoplayHint')}</Text>
+            </View>
+          </View>
+          <Switch
+            value={settings.autoplay}
+            onValueChange={(autoplay) => updateSettings({ autoplay })}
+            trackColor={{ false: Colors.surfaceLight, true: Colors.primary }}
+            thumbColor={Colors.textPrimary}
+          />
+        </View>
+
         {/* About */}
         <View style={styles.settingRow}>
           <View style={styles.settingLeft}>
@@ -177,6 +255,31 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  settingHint: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Layout.padding.sm,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: Colors.surfaceLight,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 32,
+    textAlign: 'center',
+  },
   settingLabelMuted: {
     color: Colors.textSecondary,
     fontSize: 14,
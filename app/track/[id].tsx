@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Colors } from '../../src/constants/Colors';
+import { Layout } from '../../src/constants/Layout';
+import { usePlayer } from '../../src/contexts/PlayerContext';
+import { useLanguage } from '../../src/contexts/LanguageContext';
+import { Track } from '../../src/types';
+import TrackRow from '../../src/components/TrackRow';
+import SectionHeader from '../../src/components/SectionHeader';
+import LicenseSheet from '../../src/components/LicenseSheet';
+import { getTrackMetadata, getTracksByIds, getDerivativesOf } from '../../src/services/firestore';
+import { artworkFor } from '../../src/utils/artwork';
+import { formatDuration } from '../../src/utils/format';
+import { trackLicenseLabel } from '../../src/utils/license';
+
+const ARTWORK_SIZE = 200;
+
+export default function TrackScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { playTrack } = usePlayer();
+  const { t } = useLanguage();
+  const [track, setTrack] = useState<Track | null>(null);
+  const [sources, setSources] = useState<Track[]>([]);
+  const [derivatives, setDerivatives] = useState<Track[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showLicense, setShowLicense] = useState(false);
+
+  useEffect(() => {
+    loadTrack();
+  }, [id]);
+
+  async function loadTrack() {
+    if (!id) return;
+    setLoading(true);
+    try {
+      const found = await getTrackMetadata(id);
+      setTrack(found);
+      if (found) {
+        const [built, remixes] = await Promise.all([
+          getTracksByIds(found.derivedFromIds || []),
+          getDerivativesOf([found.id]),
+        ]);
+        setSources(built);
+        setDerivatives(remixes);
+      }
+    } catch (e) {
+      console.error('Error loading track:', e);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading || !track) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>{loading ? 'Carregando...' : t('track.notFound')}</Text>
+      </View>
+    );
+  }
+
+  function relationOf(source: Track): string {
+    const relation = track?.derivedFrom?.find(s => s.trackId === source.id)?.relation || 'remix';
+    return t(`derivation.${relation}` as const);
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <LinearGradient
+          colors={['#2a4a3a', Colors.background]}
+          style={styles.headerGradient}
+        >
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Ionicons name="chevron-back" size={28} color={Colors.textPrimary} />
+          </TouchableOpacity>
+
+          <View style={styles.artworkContainer}>
+            <Image
+              source={{ uri: artworkFor(track.artwork, track.artworkVariants, ARTWORK_SIZE) }}
+              style={styles.artwork}
+            />
+          </View>
+
+          <Text style={styles.title}>{track.title}</Text>
+          <TouchableOpacity onPress={() => router.push(`/artist/${encodeURIComponent(track.artist)}`)}>
+            <Text style={styles.artist}>{track.artist}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push(`/album/${encodeURIComponent(track.album)}`)}>
+            <Text style={styles.meta}>
+              {track.album}{track.duration > 0 ? ` · ${formatDuration(track.duration)}` : ''}
+            </Text>
+          </TouchableOpacity>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.licenseBadge} onPress={() => setShowLicense(true)}>
+              <Ionicons name="shield-checkmark" size={14} color={Colors.primary} />
+              <Text style={styles.licenseText} numberOfLines={1}>{trackLicenseLabel(track)}</Text>
+            </TouchableOpacity>
+
+            <View style={{ flex: 1 }} />
+
+            <TouchableOpacity style={styles.playButton} onPress={() => playTrack(track)}>
+              <Ionicons name="play" size={26} color={Colors.background} />
+            </TouchableOpacity>
+          </View>
+        </LinearGradient>
+
+        {sources.length > 0 && (
+          <>
+            <SectionHeader title={t('track.builtOn')} />
+            {sources.map(source => (
+              <View key={source.id}>
+                <Text style={styles.relation}>{relationOf(source)}</Text>
+                <TrackRow track={source} trackList={sources} />
+              </View>
+            ))}
+          </>
+        )}
+
+        {derivatives.length > 0 && (
+          <>
+            <SectionHeader title={t('track.remixes')} />
+            {derivatives.map(remix => (
+              <TrackRow key={remix.id} track={remix} trackList={derivatives} />
+            ))}
+          </>
+        )}
+
+        <View style={{ height: Layout.miniPlayerHeight + 30 }} />
+      </ScrollView>
+
+      <LicenseSheet track={track} visible={showLicense} onClose={() => setShowLicense(false)} />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  loadingText: {
+    color: Colors.textSecondary,
+    fontSize: 16,
+  },
+  headerGradient: {
+    paddingBottom: Layout.padding.md,
+  },
+  backButton: {
+    paddingHorizontal: Layout.padding.md,
+    paddingTop: Layout.padding.md,
+    paddingBottom: Layout.padding.sm,
+  },
+  artworkContainer: {
+    alignItems: 'center',
+    paddingVertical: Layout.padding.md,
+  },
+  artwork: {
+    width: ARTWORK_SIZE,
+    height: ARTWORK_SIZE,
+    borderRadius: Layout.borderRadius.md,
+    backgroundColor: Colors.surfaceElevated,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 24,
+    fontWeight: '700',
+    paddingHorizontal: Layout.padding.md,
+    marginTop: Layout.padding.sm,
+  },
+  artist: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+    paddingHorizontal: Layout.padding.md,
+    marginTop: Layout.padding.xs,
+  },
+  meta: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    paddingHorizontal: Layout.padding.md,
+    marginTop: Layout.padding.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Layout.padding.md,
+    paddingTop: Layout.padding.md,
+  },
+  licenseBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+    paddingHorizontal: Layout.padding.sm,
+    paddingVertical: 4,
+    borderRadius: Layout.borderRadius.round,
+    maxWidth: '60%',
+  },
+  licenseText: {
+    color: Colors.primary,
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: Colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingLeft: 2,
+  },
+  relation: {
+    color: Colors.primary,
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    paddingHorizontal: Layout.padding.md,
+    marginTop: Layout.padding.sm,
+  },
+});
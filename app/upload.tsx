@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -11,6 +11,7 @@ import {
   Image,
   ScrollView,
   Platform,
+  Modal,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -19,13 +20,47 @@ import * as DocumentPicker from 'expo-document-picker';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '../src/constants/Colors';
 import { Layout } from '../src/constants/Layout';
-import { Track } from '../src/types';
+import { Track, ArtworkVariants, DerivationKind, LicenseConflict } from '../src/types';
 import * as ImagePicker from 'expo-image-picker';
 import { uploadMusicFile, uploadPlaylistCover, UploadProgress } from '../src/services/cloudStorage';
-import { saveTrackMetadata, getUserTracks, deleteTrackMetadata } from '../src/services/firestore';
+import {
+  saveTrackMetadata,
+  updateTrackMetadata,
+  getUserTracks,
+  deleteTrackMetadata,
+  searchTracksByTitle,
+} from '../src/services/firestore';
 import { usePlayer } from '../src/contexts/PlayerContext';
 import { useAuth } from '../src/contexts/AuthContext';
+import { useLanguage } from '../src/contexts/LanguageContext';
+import { TranslationKey } from '../src/i18n/translations';
 import TrackRow from '../src/components/TrackRow';
+import SegmentedToggle from '../src/components/SegmentedToggle';
+import { parseLicense, licenseLabel, trackLicense, isKnownLicense, derivativeConflicts } from '../src/utils/license';
+
+// Licenses offered for uploads; there's no default, the uploader picks one
+const UPLOAD_LICENSES = ['CC-BY-SA-4.0', 'CC-BY-4.0', 'CC0-1.0', 'CC-BY-NC-SA-4.0'] as const;
+type UploadLicense = typeof UPLOAD_LICENSES[number];
+
+const LICENSE_OPTIONS = UPLOAD_LICENSES.map(code => ({
+  value: code,
+  label: licenseLabel(parseLicense(code)),
+}));
+
+const RELATION_KINDS: DerivationKind[] = ['remix', 'sample', 'cover', 'stem'];
+
+const CONFLICT_MESSAGES: Record<LicenseConflict, TranslationKey> = {
+  unknown: 'derivation.conflictUnknown',
+  noDerivatives: 'derivation.conflictNoDerivatives',
+  shareAlike: 'derivation.conflictShareAlike',
+  nonCommercial: 'derivation.conflictNonCommercial',
+};
+
+/** A track the upload builds on. */
+interface LinkedSource {
+  track: Track;
+  relation: DerivationKind;
+}
 
 interface PendingFile {
   uri: string;
@@ -44,6 +79,7 @@ function showAlert(title: string, message: string) {
 export default function UploadScreen() {
   const router = useRouter();
   const { user } = useAuth();
+  const { t } = useLanguage();
   const { playTrack } = usePlayer();
   const [uploadedTracks, setUploadedTracks] = useState<Track[]>([]);
   const [isLoadingTracks, setIsLoadingTracks] = useState(true);
@@ -54,6 +90,13 @@ export default function UploadScreen() {
   const [albumName, setAlbumName] = useState('');
   const [albumGenre, setAlbumGenre] = useState('');
   const [coverUri, setCoverUri] = useState('');
+  const [licenseCode, setLicenseCode] = useState<UploadLicense | null>(null);
+  // An earlier upload whose license is being chosen
+  const [licensingTrack, setLicensingTrack] = useState<Track | null>(null);
+  const [licensingCode, setLicensingCode] = useState<UploadLicense | null>(null);
+  const [sources, setSources] = useState<LinkedSource[]>([]);
+  const [sourceQuery, setSourceQuery] = useState('');
+  const [sourceResults, setSourceResults] = useState<Track[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadingIndex, setUploadingIndex] = useState(0);
@@ -63,6 +106,52 @@ export default function UploadScreen() {
     loadUploadedTracks();
   }, [user]);
 
+  useEffect(() => {
+    if (!sourceQuery.trim()) {
+      setSourceResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setSourceResults(await searchTracksByTitle(sourceQuery.trim(), 8));
+      } catch (e) {
+        console.error('Source search error:', e);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [sourceQuery]);
+
+  // Sources whose license doesn't allow a derivative under the chosen license
+  const licenseConflicts = useMemo(() => {
+    if (!licenseCode) return [];
+    const target = parseLicense(licenseCode);
+    return sources
+      .map(source => ({
+        track: source.track,
+        conflicts: derivativeConflicts(trackLicense(source.track), target),
+      }))
+      .filter(result => result.conflicts.length > 0);
+  }, [sources, licenseCode]);
+
+  function addSource(track: Track) {
+    if (!sources.some(source => source.track.id === track.id)) {
+      setSources(prev => [...prev, { track, relation: 'remix' }]);
+    }
+    setSourceQuery('');
+  }
+
+  function setSourceRelation(trackId: string, relation: DerivationKind) {
+    setSources(prev => prev.map(source =>
+      source.track.id === trackId ? { ...source, relation } : source
+    ));
+  }
+
+  function removeSource(trackId: string) {
+    setSources(prev => prev.filter(source => source.track.id !== trackId));
+  }
+
   async function loadUploadedTracks() {
     if (!user) {
       setIsLoadingTracks(false);
@@ -146,6 +235,20 @@ export default function UploadScreen() {
       showAlert('Erro', 'Digite o nome do artista/banda');
       return;
     }
+    if (!licenseCode) {
+      showAlert(t('common.error'), t('license.required'));
+      return;
+    }
+    // Sources without a recognized license block too, until their license is chosen
+    if (licenseConflicts.length > 0) {
+      showAlert(
+        t('derivation.conflictTitle'),
+        licenseConflicts
+          .map(c => `"${c.track.title}": ${c.conflicts.map(k => t(CONFLICT_MESSAGES[k])).join('; ')}`)
+          .join('\n')
+      );
+      return;
+    }
     if (!user) return;
 
     setIsUploading(true);
@@ -156,15 +259,19 @@ export default function UploadScreen() {
     try {
       // Upload cover once (shared for all tracks)
       let artworkUrl = '';
+      let artworkVariants: ArtworkVariants = {};
       if (coverUri) {
         try {
-          artworkUrl = await uploadPlaylistCover(user.id, coverUri);
+          const cover = await uploadPlaylistCover(user.id, coverUri);
+          artworkUrl = cover.url;
+          artworkVariants = cover.variants;
         } catch (e) {
           console.error('Cover upload error:', e);
         }
       }
 
       const uploaded: Track[] = [];
+      const licenseInfo = parseLicense(licenseCode);
 
       for (let i = 0; i < pendingFiles.length; i++) {
         const file = pendingFiles[i];
@@ -190,10 +297,18 @@ export default function UploadScreen() {
           album: albumName.trim() || 'Meus Uploads',
           duration: 0,
           artwork: finalArtwork,
+          ...(artworkUrl ? { artworkVariants } : {}),
           audioUrl,
           isLocal: false,
           genre: albumGenre.trim() || 'Outro',
-          license: 'Copyleft - Livre para compartilhar',
+          license: licenseInfo.url || licenseCode,
+          licenseInfo,
+          ...(sources.length > 0
+            ? {
+                derivedFrom: sources.map(s => ({ trackId: s.track.id, relation: s.relation })),
+                derivedFromIds: sources.map(s => s.track.id),
+              }
+            : {}),
           addedAt: Date.now(),
           uploadedBy: user.id,
           uploadedByName: user.displayName || 'Anônimo',
@@ -213,6 +328,7 @@ export default function UploadScreen() {
       setAlbumName('');
       setAlbumGenre('');
       setCoverUri('');
+      setSources([]);
 
       const msg = uploaded.length === 1
         ? `"${uploaded[0].title}" foi compartilhada com a comunidade!`
@@ -229,6 +345,27 @@ export default function UploadScreen() {
     }
   }
 
+  function chooseLicense(track: Track) {
+    setLicensingTrack(track);
+    setLicensingCode(null);
+  }
+
+  async function saveChosenLicense() {
+    if (!licensingTrack || !licensingCode) return;
+    const licenseInfo = parseLicense(licensingCode);
+    const updates = { license: licenseInfo.url || licensingCode, licenseInfo };
+    try {
+      await updateTrackMetadata(licensingTrack.id, updates);
+      setUploadedTracks((prev) =>
+        prev.map((track) => (track.id === licensingTrack.id ? { ...track, ...updates } : track))
+      );
+      setLicensingTrack(null);
+    } catch (e) {
+      console.error('Error saving license:', e);
+      showAlert(t('common.error'), t('license.saveFailed'));
+    }
+  }
+
   async function deleteTrack(track: Track) {
     if (Platform.OS === 'web') {
       if (window.confirm(`Deseja remover "${track.title}"?`)) {
@@ -387,14 +524,78 @@ export default function UploadScreen() {
               </View>
             </TouchableOpacity>
 
-            {/* Copyleft notice */}
-            <View style={styles.copyleftNotice}>
-              <Ionicons name="globe-outline" size={16} color={Colors.primary} />
-              <Text style={styles.copyleftNoticeText}>
-                Ao enviar, suas músicas serão compartilhadas com toda a comunidade sob licença Copyleft.
-              </Text>
+            {/* License */}
+            <Text style={[styles.sectionTitle, { marginTop: Layout.padding.lg }]}>
+              {t('license.title')}
+            </Text>
+            <View style={styles.licensePicker}>
+              <SegmentedToggle
+                options={LICENSE_OPTIONS}
+                value={licenseCode}
+                onChange={setLicenseCode}
+              />
             </View>
 
+            {/* Remix lineage */}
+            <Text style={[styles.sectionTitle, { marginTop: Layout.padding.lg }]}>
+              {t('derivation.basedOn')}
+            </Text>
+
+            {sources.map(source => (
+              <View key={source.track.id} style={styles.sourceRow}>
+                <View style={styles.sourceInfo}>
+                  <Text style={styles.sourceTitle} numberOfLines={1}>{source.track.title}</Text>
+                  <Text style={styles.sourceArtist} numberOfLines={1}>{source.track.artist}</Text>
+                </View>
+                <SegmentedToggle
+                  options={RELATION_KINDS.map(kind => ({ value: kind, label: t(`derivation.${kind}` as const) }))}
+                  value={source.relation}
+                  onChange={(relation) => setSourceRelation(source.track.id, relation)}
+                />
+                {!isUploading && (
+                  <TouchableOpacity onPress={() => removeSource(source.track.id)} style={styles.removeButton}>
+                    <Ionicons name="close-circle" size={22} color="#ff5252" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+
+            <TextInput
+              style={styles.input}
+              value={sourceQuery}
+              onChangeText={setSourceQuery}
+              placeholder={t('derivation.searchSource')}
+              placeholderTextColor={Colors.textInactive}
+              editable={!isUploading}
+            />
+
+            {sourceResults.map(track => (
+              <TouchableOpacity key={track.id} style={styles.sourceResult} onPress={() => addSource(track)}>
+                <Ionicons name="add-circle-outline" size={20} color={Colors.primary} />
+                <Text style={styles.sourceResultText} numberOfLines={1}>
+                  {track.title} · {track.artist}
+                </Text>
+              </TouchableOpacity>
+            ))}
+
+            {licenseConflicts.map(({ track, conflicts }) => (
+              <View key={track.id} style={styles.conflictRow}>
+                <Ionicons name="warning" size={16} color="#ff5252" />
+                <Text style={styles.conflictText}>
+                  "{track.title}" {conflicts.map(c => t(CONFLICT_MESSAGES[c])).join('; ')}
+                </Text>
+              </View>
+            ))}
+
+            {licenseCode && (
+              <View style={styles.licenseNotice}>
+                <Ionicons name="globe-outline" size={16} color={Colors.primary} />
+                <Text style={styles.licenseNoticeText}>
+                  {t('upload.licenseNotice')} {licenseLabel(parseLicense(licenseCode))}.
+                </Text>
+              </View>
+            )}
+
             {/* Upload button */}
             <TouchableOpacity
               style={[styles.uploadButton, isUploading && { opacity: 0.7 }]}
@@ -440,13 +641,50 @@ export default function UploadScreen() {
               key={track.id}
               track={track}
               trackList={uploadedTracks}
-              onOptionsPress={(t) => deleteTrack(t)}
+              options={[
+                ...(isKnownLicense(trackLicense(track))
+                  ? []
+                  : [{ label: t('license.choose'), icon: 'document-text-outline' as const, onPress: chooseLicense }]),
+                { label: t('upload.removeTrack'), icon: 'trash-outline', onPress: deleteTrack, destructive: true },
+              ]}
             />
           ))
         )}
 
         <View style={{ height: 40 }} />
       </ScrollView>
+
+      {/* License for an earlier upload */}
+      <Modal
+        visible={!!licensingTrack}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setLicensingTrack(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('license.choose')}</Text>
+            <Text style={styles.modalTrack} numberOfLines={1}>{licensingTrack?.title}</Text>
+            <SegmentedToggle
+              options={LICENSE_OPTIONS}
+              value={licensingCode}
+              onChange={setLicensingCode}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancelButton} onPress={() => setLicensingTrack(null)}>
+                <Text style={styles.modalCancelText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalSaveButton, !licensingCode && { opacity: 0.5 }]}
+                onPress={saveChosenLicense}
+                disabled={!licensingCode}
+              >
+                <Text style={styles.modalSaveText}>{t('license.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -587,7 +825,56 @@ const styles = StyleSheet.create({
     fontSize: 11,
     marginTop: 2,
   },
-  copyleftNotice: {
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: Layout.borderRadius.sm,
+    paddingHorizontal: Layout.padding.sm,
+    paddingVertical: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  sourceInfo: {
+    flex: 1,
+    marginRight: Layout.padding.sm,
+  },
+  sourceTitle: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+  },
+  sourceArtist: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+  sourceResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Layout.padding.sm,
+  },
+  sourceResultText: {
+    flex: 1,
+    color: Colors.textPrimary,
+    fontSize: 14,
+    marginLeft: Layout.padding.sm,
+  },
+  conflictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Layout.padding.sm,
+  },
+  conflictText: {
+    flex: 1,
+    color: '#ff5252',
+    fontSize: 12,
+    marginLeft: Layout.padding.xs,
+  },
+  licensePicker: {
+    alignItems: 'flex-start',
+    marginBottom: Layout.padding.md,
+  },
+  licenseNotice: {
     flexDirection: 'row',
     alignItems: 'center',
     backgroundColor: 'rgba(29, 185, 84, 0.1)',
@@ -595,7 +882,7 @@ const styles = StyleSheet.create({
     padding: Layout.padding.sm,
     marginBottom: Layout.padding.md,
   },
-  copyleftNoticeText: {
+  licenseNoticeText: {
     color: Colors.textSecondary,
     fontSize: 11,
     flex: 1,
@@ -639,4 +926,61 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 40,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'center',
+    padding: Layout.padding.xl,
+  },
+  modalContent: {
+    backgroundColor: Colors.surfaceElevated,
+    borderRadius: Layout.borderRadius.lg,
+    padding: Layout.padding.lg,
+    alignItems: 'center',
+  },
+  modalTitle: {
+    color: Colors.textPrimary,
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  modalTrack: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    marginTop: Layout.padding.xs,
+    marginBottom: Layout.padding.lg,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    marginTop: Layout.padding.lg,
+  },
+  modalCancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginRight: Layout.padding.sm,
+    borderRadius: Layout.borderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  modalCancelText: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  modalSaveButton: {
+    flex: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginLeft: Layout.padding.sm,
+    borderRadius: Layout.borderRadius.round,
+    backgroundColor: Colors.primary,
+  },
+  modalSaveText: {
+    color: Colors.background,
+    fontSize: 15,
+    fontWeight: '700',
+  },
 });
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { mapArchiveItem, pickArchiveMp3s, parseArchiveLength, fetchArchive } from '../sources/archive';
+import { httpGetJson, HttpError } from '../http';
+
+vi.mock('../http', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../http')>()),
+  httpGetJson: vi.fn(),
+}));
+
+vi.mock('../utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils')>()),
+  sleep: () => Promise.resolve(),
+  log: () => {},
+}));
+
+type ArchiveMetadata = Parameters<typeof mapArchiveItem>[0];
+type StateStore = NonNullable<Parameters<typeof fetchArchive>[0]>;
+
+// Archive.org responses, trimmed to the fields the importer reads
+function fixture<T>(name: string): T {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'archive', `${name}.json`), 'utf8')) as T;
+}
+
+/** A Firestore holding `saved` as the import state; `set` records what the run saves. */
+function fakeDb(saved: object | null) {
+  const set = vi.fn(async (_data: object) => {});
+  const db: StateStore = {
+    doc: () => ({
+      get: async () => ({ exists: saved !== null, data: () => saved ?? undefined }),
+      set,
+    }),
+  };
+  return { db, set };
+}
+
+const METADATA: Record<string, string> = {
+  'nl042-static-harbor': 'metadata-rock-album',
+  'nl077-closed-doors': 'metadata-all-rights-reserved',
+  'nl013-blue-hour': 'metadata-jazz-album',
+};
+
+describe('parseArchiveLength', () => {
+  it('reads seconds and m:ss values', () => {
+    expect(parseArchiveLength('245.31')).toBe(245);
+    expect(parseArchiveLength('3:12')).toBe(192);
+    expect(parseArchiveLength('1:02:03')).toBe(3723);
+    expect(parseArchiveLength(undefined)).toBe(0);
+    expect(parseArchiveLength('n/a')).toBe(0);
+  });
+});
+
+describe('pickArchiveMp3s', () => {
+  it('keeps one MP3 per original upload', () => {
+    const picked = pickArchiveMp3s(fixture<ArchiveMetadata>('metadata-rock-album').files!).map(f => f.name);
+    expect(picked).toEqual(['01 - Low Tide.mp3', '02 - Rust Belt.mp3', '03 - Feedback.mp3']);
+  });
+
+  it('prefers VBR over fixed-bitrate derivatives, whatever the file order', () => {
+    const picked = pickArchiveMp3s([
+      { name: 'a_64kb.mp3', source: 'derivative', format: '64Kbps MP3', original: 'a.wav' },
+      { name: 'a_128kb.mp3', source: 'derivative', format: '128Kbps MP3', original: 'a.wav' },
+      { name: 'a.mp3', source: 'derivative', format: 'VBR MP3', original: 'a.wav' },
+      { name: 'a.wav', source: 'original', format: 'WAVE' },
+    ]);
+    expect(picked.map(f => f.name)).toEqual(['a.mp3']);
+  });
+
+  it('takes the highest fixed bitrate when there is no VBR copy', () => {
+    const picked = pickArchiveMp3s([
+      { name: 'b_64kb.mp3', source: 'derivative', format: '64Kbps MP3', original: 'b.flac' },
+      { name: 'b_128kb.mp3', source: 'derivative', format: '128Kbps MP3', original: 'b.flac' },
+    ]);
+    expect(picked.map(f => f.name)).toEqual(['b_128kb.mp3']);
+  });
+});
+
+describe('mapArchiveItem', () => {
+  it('maps a CC-licensed rock album to one track per song', () => {
+    const { tracks, sfxSkipped } = mapArchiveItem(fixture<ArchiveMetadata>('metadata-rock-album'));
+
+    expect(sfxSkipped).toBe(1); // the 9-second "Feedback"
+    expect(tracks.map(t => t.title)).toEqual(['Low Tide', 'Rust Belt']);
+    expect(new Set(tracks.map(t => t.id)).size).toBe(2);
+
+    const [lowTide, rustBelt] = tracks;
+    expect(lowTide).toMatchObject({
+      artist: 'Static Harbor',
+      artistId: 'archive-artist-static-harbor',
+      album: 'Breakwater',
+      albumId: 'archive-album-nl042-static-harbor',
+      duration: 245,
+      genre: 'post-rock',
+      artwork: 'https://archive.org/services/img/nl042-static-harbor',
+      audioUrl: 'https://archive.org/download/nl042-static-harbor/01%20-%20Low%20Tide.mp3',
+    });
+    expect(lowTide.id).toMatch(/^archive-nl042-static-harbor-[0-9a-f]{10}$/);
+    expect(lowTide.licenseInfo.code).toBe('CC-BY-NC-SA-3.0');
+
+    // The MP3 derived from the FLAC upload, with the FLAC's tags
+    expect(rustBelt).toMatchObject({
+      artist: 'Static Harbor',
+      duration: 192,
+      audioUrl: 'https://archive.org/download/nl042-static-harbor/02%20-%20Rust%20Belt.mp3',
+    });
+  });
+
+  it('gives a song the same ID on every run', () => {
+    const first = mapArchiveItem(fixture<ArchiveMetadata>('metadata-rock-album')).tracks.map(t => t.id);
+    const again = mapArchiveItem(fixture<ArchiveMetadata>('metadata-rock-album')).tracks.map(t => t.id);
+    expect(again).toEqual(first);
+  });
+
+  it('skips items without a Creative Commons or public domain license', () => {
+    expect(mapArchiveItem(fixture<ArchiveMetadata>('metadata-all-rights-reserved')).tracks).toEqual([]);
+  });
+
+  it('skips items without a rock genre', () => {
+    expect(mapArchiveItem(fixture<ArchiveMetadata>('metadata-jazz-album')).tracks).toEqual([]);
+  });
+});
+
+describe('fetchArchive', () => {
+  beforeEach(() => {
+    vi.mocked(httpGetJson).mockReset();
+    vi.mocked(httpGetJson).mockImplementation(async <T,>(url: string) => {
+      if (url.includes('/services/search/v1/scrape')) {
+        return fixture<T>(url.includes('&cursor=') ? 'scrape-page-2' : 'scrape-page-1');
+      }
+      const identifier = decodeURIComponent(url.replace('https://archive.org/metadata/', ''));
+      if (METADATA[identifier]) return fixture<T>(METADATA[identifier]);
+      throw new HttpError(`HTTP 404 for ${url}`, url, false, 404);
+    });
+  });
+
+  it('pages through the search, maps each item and reports failed items', async () => {
+    const result = await fetchArchive();
+
+    expect(result.sourceName).toBe('archive');
+    // Page 2 lists the first album again; its tracks come back once
+    expect(result.tracks.map(t => t.title)).toEqual(['Low Tide', 'Rust Belt']);
+    expect(result.sfxSkipped).toBe(2);
+    expect(result.errors).toEqual([
+      { kind: 'fatal', message: expect.stringContaining('item nl099-taken-down') },
+    ]);
+    // Without a database there is no state to save
+    expect(result.state).toEqual({
+      before: { cursor: '', itemsScanned: 0, lastRun: '' },
+      after: null,
+    });
+  });
+
+  it('resumes from the saved cursor and stores the next one', async () => {
+    const saved = { cursor: 'W3siaWRlbnRpZmllciI6Im5sMDk5LXRha2VuLWRvd24ifV0=', itemsScanned: 4, lastRun: '' };
+    const { db, set } = fakeDb(saved);
+
+    const result = await fetchArchive(db);
+
+    const [firstUrl] = vi.mocked(httpGetJson).mock.calls[0];
+    expect(firstUrl).toContain(`&cursor=${encodeURIComponent(saved.cursor)}`);
+    expect(result.tracks).toHaveLength(2);
+    // Page 2 has no cursor: the end of the results, so the next run starts over
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ cursor: '', itemsScanned: 0 }));
+  });
+
+  it('keeps items that failed with a retryable error and fetches them first next run', async () => {
+    const fetchJson = vi.mocked(httpGetJson).getMockImplementation()!;
+    vi.mocked(httpGetJson).mockImplementation(async (url, options) => {
+      if (url.endsWith('/nl013-blue-hour')) throw new HttpError(`HTTP 503 for ${url}`, url, true, 503);
+      return fetchJson(url, options);
+    });
+    const first = fakeDb(null);
+
+    const result = await fetchArchive(first.db);
+
+    expect(result.errors).toContainEqual({ kind: 'retryable', message: expect.stringContaining('item nl013-blue-hour') });
+    // The cursor still moves on; the item waits in the retry list
+    expect(first.set).toHaveBeenCalledWith(expect.objectContaining({ cursor: '', retry: ['nl013-blue-hour'] }));
+
+    vi.mocked(httpGetJson).mockClear().mockImplementation(fetchJson);
+    const next = fakeDb(first.set.mock.calls[0][0]);
+
+    await fetchArchive(next.db);
+
+    const urls = vi.mocked(httpGetJson).mock.calls.map(([url]) => url);
+    expect(urls.findIndex(url => url.endsWith('/nl013-blue-hour'))).toBeLessThan(
+      urls.findIndex(url => url.includes('/services/search/v1/scrape'))
+    );
+    expect(next.set).toHaveBeenCalledWith(expect.objectContaining({ retry: [] }));
+  });
+});
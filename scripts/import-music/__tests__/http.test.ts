@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { httpFetch, setHostBudget, HttpError } from '../http';
+
+vi.mock('../utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils')>()),
+  sleep: () => Promise.resolve(),
+  log: () => {},
+}));
+
+describe('httpFetch request budgets', () => {
+  const fetchMock = vi.fn(async () => new Response('ok'));
+
+  beforeEach(() => {
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('leaves hosts without a budget unlimited', async () => {
+    for (let i = 0; i < 1500; i++) {
+      await httpFetch(`https://media.example.com/track-${i}.mp3`);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(1500);
+  });
+
+  it('stops at the budget set for a host, counting retries', async () => {
+    setHostBudget('api.example.com', 3);
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 500 }));
+
+    await httpFetch('https://api.example.com/tracks?page=1');
+    await httpFetch('https://api.example.com/tracks?page=2');
+    const err = await httpFetch('https://api.example.com/tracks?page=3').catch(e => e);
+
+    expect(err).toBeInstanceOf(HttpError);
+    expect(err).toMatchObject({ retryable: true, message: expect.stringContaining('budget') });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    // Other hosts are not affected
+    await httpFetch('https://media.example.com/cover.jpg');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseEbur128Summary, measureLoudness } from '../loudness';
+import { runFfmpeg } from '../ffmpeg';
+
+vi.mock('../ffmpeg', () => ({ runFfmpeg: vi.fn() }));
+
+// ffmpeg's stderr for `-af ebur128=peak=true` over a 3 s sine tone and 2 s of silence
+function capture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'ebur128', `${name}.txt`), 'utf8');
+}
+
+describe('parseEbur128Summary', () => {
+  it('reads integrated loudness and true peak from the summary, not the running log', () => {
+    expect(parseEbur128Summary(capture('tone'))).toEqual({ lufs: -34.2, peakDb: -30.5 });
+  });
+
+  it('reads a silent track', () => {
+    expect(parseEbur128Summary(capture('silence'))).toEqual({ lufs: -70, peakDb: -Infinity });
+  });
+
+  it('returns null without a summary', () => {
+    const log = capture('tone');
+    expect(parseEbur128Summary(log.slice(0, log.indexOf('Summary:')))).toBeNull();
+  });
+});
+
+describe('measureLoudness', () => {
+  beforeEach(() => vi.mocked(runFfmpeg).mockReset());
+
+  it('derives the gain to -18 LUFS and the linear peak', async () => {
+    vi.mocked(runFfmpeg).mockResolvedValue({ stdout: Buffer.alloc(0), stderr: capture('tone') });
+    expect(await measureLoudness(Buffer.from('mp3'))).toEqual({ loudnessLufs: -34.2, gainDb: 16.2, peak: 0.0299 });
+  });
+
+  it('returns null for silence or when ffmpeg is missing', async () => {
+    vi.mocked(runFfmpeg).mockResolvedValue({ stdout: Buffer.alloc(0), stderr: capture('silence') });
+    expect(await measureLoudness(Buffer.from('mp3'))).toBeNull();
+    vi.mocked(runFfmpeg).mockResolvedValue(null);
+    expect(await measureLoudness(Buffer.from('mp3'))).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { probeAudio, probeProblem, correctedDuration, ProbeError } from '../probe';
+
+// ── MP3: MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo ───────────────────────
+
+const MP3_FRAME_LENGTH = 417;
+const MP3_FRAME_SAMPLES = 1152;
+
+function mp3Frame({ silent = false } = {}): Buffer {
+  const frame = Buffer.alloc(MP3_FRAME_LENGTH);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  // A non-zero part2_3_length in the first granule's side info
+  if (!silent) {
+    frame[6] = 0x0f;
+    frame[7] = 0xff;
+  }
+  return frame;
+}
+
+/** An Info header frame (LAME's name for a CBR Xing header) declaring `frames`. */
+function infoFrame(frames: number): Buffer {
+  const frame = mp3Frame({ silent: true });
+  frame.write('Info', 4 + 32, 'latin1');
+  frame.writeUInt32BE(1, 4 + 36);
+  frame.writeUInt32BE(frames, 4 + 40);
+  return frame;
+}
+
+function mp3(count: number, options: { silent?: boolean } = {}): Buffer[] {
+  return Array.from({ length: count }, () => mp3Frame(options));
+}
+
+// ── FLAC: 44.1 kHz mono 16-bit, fixed 4096-sample blocks ────────────────────
+
+const FLAC_BLOCK_SIZE = 4096;
+
+function crc8(bytes: number[]): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let b = 0; b < 8; b++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function flac(frames: number, { totalSamples = frames * FLAC_BLOCK_SIZE, silent = false } = {}): Buffer {
+  const streamInfo = Buffer.alloc(34);
+  streamInfo.writeUInt16BE(FLAC_BLOCK_SIZE, 0);
+  streamInfo.writeUInt16BE(FLAC_BLOCK_SIZE, 2);
+  streamInfo.set([0x0a, 0xc4, 0x40, 0xf0], 10);
+  streamInfo.writeUInt32BE(totalSamples, 14);
+
+  const parts = [Buffer.from('fLaC', 'latin1'), Buffer.from([0x80, 0x00, 0x00, 34]), streamInfo];
+  for (let n = 0; n < frames; n++) {
+    const header = [0xff, 0xf8, 0xc9, 0x08, n];
+    const frame = Buffer.alloc(64);
+    frame.set([...header, crc8(header), silent ? 0x00 : 0x02]);
+    parts.push(frame);
+  }
+  return Buffer.concat(parts);
+}
+
+describe('probeAudio', () => {
+  describe('MP3', () => {
+    it('reads the duration and stream parameters from the frames', () => {
+      const probe = probeAudio(Buffer.concat(mp3(200)));
+      expect(probe).toMatchObject({
+        format: 'mp3',
+        contentType: 'audio/mpeg',
+        extension: '.mp3',
+        durationMs: Math.round((200 * MP3_FRAME_SAMPLES / 44100) * 1000),
+        bitrate: 128,
+        sampleRate: 44100,
+        channels: 2,
+        truncated: false,
+        silent: false,
+      });
+    });
+
+    it('skips a leading ID3v2 tag and does not count the Info frame', () => {
+      const id3 = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 10, ...Array(10).fill(0)]);
+      const probe = probeAudio(Buffer.concat([id3, infoFrame(200), ...mp3(200)]));
+      expect(probe.durationMs).toBe(5224);
+      expect(probe.truncated).toBe(false);
+    });
+
+    it('ignores a short final frame', () => {
+      const probe = probeAudio(Buffer.concat([...mp3(200), mp3Frame().subarray(0, 100)]));
+      expect(probe.durationMs).toBe(5224);
+      expect(probe.truncated).toBe(false);
+    });
+
+    it('flags a stream well short of the frame count its header declares', () => {
+      const probe = probeAudio(Buffer.concat([infoFrame(400), ...mp3(200)]));
+      expect(probe.truncated).toBe(true);
+      expect(probeProblem(probe)).toBe('truncated');
+    });
+
+    it('flags frames without main data as silent', () => {
+      const probe = probeAudio(Buffer.concat(mp3(200, { silent: true })));
+      expect(probe.silent).toBe(true);
+      expect(probeProblem(probe)).toBe('silent');
+    });
+  });
+
+  describe('FLAC', () => {
+    it('reads the duration and stream parameters from STREAMINFO and the frames', () => {
+      const probe = probeAudio(flac(60));
+      expect(probe).toMatchObject({
+        format: 'flac',
+        contentType: 'audio/flac',
+        durationMs: Math.round((60 * FLAC_BLOCK_SIZE / 44100) * 1000),
+        sampleRate: 44100,
+        channels: 1,
+        truncated: false,
+        silent: false,
+      });
+    });
+
+    it('flags a stream with fewer samples than STREAMINFO declares', () => {
+      const probe = probeAudio(flac(40, { totalSamples: 60 * FLAC_BLOCK_SIZE }));
+      expect(probe.truncated).toBe(true);
+    });
+
+    it('flags a stream of constant subframes as silent', () => {
+      expect(probeAudio(flac(60, { silent: true })).silent).toBe(true);
+    });
+  });
+
+  it('throws ProbeError for anything that is not audio', () => {
+    expect(() => probeAudio(Buffer.from('<!DOCTYPE html><html><body>Not found</body></html>'))).toThrow(ProbeError);
+    expect(() => probeAudio(Buffer.alloc(4096))).toThrow(ProbeError);
+    expect(() => probeAudio(Buffer.from('fLaC', 'latin1'))).toThrow('FLAC stream has no STREAMINFO');
+  });
+});
+
+describe('probeProblem', () => {
+  it('passes a full-length audible file and rejects a short one', () => {
+    expect(probeProblem(probeAudio(Buffer.concat(mp3(200))))).toBeNull();
+    expect(probeProblem(probeAudio(Buffer.concat(mp3(40))))).toBe('too short (1.0s)');
+  });
+});
+
+describe('correctedDuration', () => {
+  it('only corrects a reported duration that is missing or off', () => {
+    const probe = probeAudio(flac(60));
+    expect(correctedDuration(6, probe)).toBeNull();
+    expect(correctedDuration(0, probe)).toBe(6);
+    expect(correctedDuration(180, probe)).toBe(6);
+  });
+});
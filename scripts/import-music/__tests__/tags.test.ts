@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import { readTags, id3v2Length } from '../tags';
+
+const PICTURE = Buffer.from(Array.from({ length: 200 }, (_, i) => i));
+
+// ── ID3 ─────────────────────────────────────────────────────────────────────
+
+function syncsafe(size: number): number[] {
+  return [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f];
+}
+
+/** A text frame's body: the encoding byte, then the text in that encoding. */
+function text(value: string, encoding = 0): Buffer {
+  const encoded = encoding === 1
+    ? Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(value, 'utf16le')])
+    : Buffer.from(value, encoding === 3 ? 'utf8' : 'latin1');
+  return Buffer.concat([Buffer.from([encoding]), encoded]);
+}
+
+function apic(type: number, data: Buffer): Buffer {
+  return Buffer.concat([Buffer.from('\0image/png\0', 'latin1'), Buffer.from([type]), Buffer.from('cover\0'), data]);
+}
+
+/** An ID3v2 tag; v2.4 frame sizes are syncsafe, v2.3 ones plain 32-bit. */
+function id3v2(major: 3 | 4, frames: [string, Buffer][]): Buffer {
+  const body = Buffer.concat(frames.map(([id, data]) => {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, 'latin1');
+    if (major === 4) header.set(syncsafe(data.length), 4);
+    else header.writeUInt32BE(data.length, 4);
+    return Buffer.concat([header, data]);
+  }));
+  return Buffer.concat([Buffer.from([0x49, 0x44, 0x33, major, 0, 0, ...syncsafe(body.length)]), body]);
+}
+
+function id3v1({ title = '', artist = '', album = '', year = '', track = 0, genre = 255 }): Buffer {
+  const tag = Buffer.alloc(128);
+  tag.write('TAG', 0, 'latin1');
+  tag.write(title, 3, 30, 'latin1');
+  tag.write(artist, 33, 30, 'latin1');
+  tag.write(album, 63, 30, 'latin1');
+  tag.write(year, 93, 4, 'latin1');
+  tag[126] = track;
+  tag[127] = genre;
+  return tag;
+}
+
+// Stands in for the MPEG frames between the tags
+const AUDIO = Buffer.alloc(256, 0x55);
+
+// ── Vorbis comments ─────────────────────────────────────────────────────────
+
+function vorbisComments(comments: string[]): Buffer {
+  const parts = [Buffer.alloc(4), Buffer.alloc(4)];
+  parts[1].writeUInt32LE(comments.length);
+  for (const comment of comments) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(Buffer.byteLength(comment));
+    parts.push(length, Buffer.from(comment));
+  }
+  return Buffer.concat(parts);
+}
+
+function flacPicture(data: Buffer): Buffer {
+  const header = Buffer.alloc(8 + 9 + 4 + 16 + 4);
+  header.writeUInt32BE(3, 0);
+  header.writeUInt32BE(9, 4);
+  header.write('image/png', 8, 'latin1');
+  header.writeUInt32BE(0, 17);
+  header.writeUInt32BE(data.length, 37);
+  return Buffer.concat([header, data]);
+}
+
+function flac(blocks: [number, Buffer][]): Buffer {
+  return Buffer.concat([
+    Buffer.from('fLaC', 'latin1'),
+    ...blocks.map(([type, data], i) => {
+      const last = i === blocks.length - 1 ? 0x80 : 0;
+      return Buffer.concat([Buffer.from([last | type, data.length >> 16, (data.length >> 8) & 0xff, data.length & 0xff]), data]);
+    }),
+  ]);
+}
+
+/** A single Ogg page holding the identification and comment packets. */
+function ogg(packets: Buffer[]): Buffer {
+  const header = Buffer.alloc(27);
+  header.write('OggS', 0, 'latin1');
+  header[26] = packets.length;
+  return Buffer.concat([header, Buffer.from(packets.map(p => p.length)), ...packets]);
+}
+
+describe('readTags', () => {
+  it('reads ID3v2.4 frames with syncsafe sizes and UTF-8 text', () => {
+    const tags = readTags(Buffer.concat([
+      id3v2(4, [
+        ['TIT2', text('Canção do Mar', 3)],
+        ['TPE1', text('Jürgen\0Ana', 3)],
+        ['TALB', text('Maré', 3)],
+        ['TRCK', text('3/12')],
+        ['TDRC', text('2019-05-01')],
+        ['APIC', apic(3, PICTURE)],
+      ]),
+      AUDIO,
+    ]));
+
+    expect(tags).toEqual({
+      title: 'Canção do Mar',
+      artist: 'Jürgen',
+      album: 'Maré',
+      trackNumber: 3,
+      year: 2019,
+      picture: { mimeType: 'image/png', data: PICTURE },
+    });
+  });
+
+  it('reads ID3v2.3 frames with plain sizes, Latin-1 and UTF-16 text', () => {
+    const tags = readTags(Buffer.concat([
+      id3v2(3, [
+        ['TIT2', text('Canção', 0)],
+        ['TPE1', text('Ação Direta', 1)],
+        ['TALB', text('Ao Vivo', 1)],
+        ['TRCK', text('7')],
+        ['TYER', text('1998')],
+        ['TCON', text('(17)')],
+        ['APIC', apic(3, PICTURE)],
+      ]),
+      AUDIO,
+    ]));
+
+    expect(tags).toMatchObject({
+      title: 'Canção',
+      artist: 'Ação Direta',
+      album: 'Ao Vivo',
+      trackNumber: 7,
+      year: 1998,
+      genre: 'Rock',
+    });
+    expect(tags.picture?.data).toEqual(PICTURE);
+  });
+
+  it('prefers the front cover over other pictures', () => {
+    const back = Buffer.from('back');
+    const front = Buffer.from('front');
+    const tags = readTags(id3v2(4, [['APIC', apic(4, back)], ['APIC', apic(3, front)], ['APIC', apic(0, back)]]));
+    expect(tags.picture?.data).toEqual(front);
+  });
+
+  it('falls back to ID3v1 for fields ID3v2 lacks', () => {
+    const tags = readTags(Buffer.concat([
+      id3v2(3, [['TIT2', text('Canção')]]),
+      AUDIO,
+      id3v1({ title: 'Cancao', artist: 'Static Harbor', album: 'Breakwater', year: '2004', track: 5, genre: 8 }),
+    ]));
+
+    expect(tags).toEqual({
+      title: 'Canção',
+      artist: 'Static Harbor',
+      album: 'Breakwater',
+      year: 2004,
+      trackNumber: 5,
+      genre: 'Jazz',
+    });
+  });
+
+  it('reads a bare ID3v1 tag', () => {
+    const tags = readTags(Buffer.concat([AUDIO, id3v1({ title: 'Low Tide', artist: 'Static Harbor' })]));
+    expect(tags).toEqual({ title: 'Low Tide', artist: 'Static Harbor' });
+  });
+
+  it('reads FLAC Vorbis comments and the PICTURE block', () => {
+    const tags = readTags(flac([
+      [0, Buffer.alloc(34)],
+      [4, vorbisComments([
+        'TITLE=Canção do Mar',
+        'artist=Static Harbor',
+        'ALBUM=Breakwater',
+        'TRACKNUMBER=04',
+        'DATE=2021',
+        'LICENSE=https://creativecommons.org/licenses/by/4.0/',
+      ])],
+      [6, flacPicture(PICTURE)],
+    ]));
+
+    expect(tags).toEqual({
+      title: 'Canção do Mar',
+      artist: 'Static Harbor',
+      album: 'Breakwater',
+      trackNumber: 4,
+      year: 2021,
+      license: 'https://creativecommons.org/licenses/by/4.0/',
+      picture: { mimeType: 'image/png', data: PICTURE },
+    });
+  });
+
+  it('reads Opus comments and their embedded picture', () => {
+    const tags = readTags(ogg([
+      Buffer.from('OpusHead'),
+      Buffer.concat([
+        Buffer.from('OpusTags'),
+        vorbisComments(['TITLE=Low Tide', `METADATA_BLOCK_PICTURE=${flacPicture(Buffer.from('cover')).toString('base64')}`]),
+      ]),
+    ]));
+
+    expect(tags).toEqual({ title: 'Low Tide', picture: { mimeType: 'image/png', data: Buffer.from('cover') } });
+  });
+
+  it('keeps what it read from a tag cut short', () => {
+    const tag = id3v2(4, [['TIT2', text('Low Tide')], ['APIC', apic(3, PICTURE)]]);
+    expect(readTags(tag.subarray(0, 40))).toEqual({ title: 'Low Tide' });
+  });
+
+  it('returns nothing for untagged data', () => {
+    expect(readTags(AUDIO)).toEqual({});
+  });
+});
+
+describe('id3v2Length', () => {
+  it('reads the syncsafe tag size', () => {
+    const tag = id3v2(4, [['APIC', apic(3, PICTURE)]]);
+    expect(id3v2Length(Buffer.concat([tag, AUDIO]))).toBe(tag.length);
+    expect(id3v2Length(AUDIO)).toBe(0);
+  });
+});
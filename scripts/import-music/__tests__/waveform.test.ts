@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { computeWaveform, peaksFromSamples } from '../waveform';
+import { runFfmpeg } from '../ffmpeg';
+
+vi.mock('../ffmpeg', () => ({ runFfmpeg: vi.fn() }));
+
+// ffmpeg's f32le output for these samples
+function pcm(samples: number[]): Buffer {
+  const buf = Buffer.alloc(samples.length * 4);
+  samples.forEach((value, i) => buf.writeFloatLE(value, i * 4));
+  return buf;
+}
+
+describe('peaksFromSamples', () => {
+  it('takes the highest absolute sample per bar, scaled to the loudest', () => {
+    const samples = new Float32Array([0.1, -0.2, 0.4, -0.8, 0.05, 0.05, 0, -0.2]);
+    expect(peaksFromSamples(samples, 4)).toEqual([0.25, 1, 0.06, 0.25]);
+  });
+
+  it('fills every bar when there are fewer samples than bars', () => {
+    expect(peaksFromSamples(new Float32Array([0.5, 1]), 4)).toEqual([0.5, 0.5, 1, 1]);
+  });
+
+  it('returns null for silence or no samples', () => {
+    expect(peaksFromSamples(new Float32Array(16), 4)).toBeNull();
+    expect(peaksFromSamples(new Float32Array(0), 4)).toBeNull();
+  });
+});
+
+describe('computeWaveform', () => {
+  beforeEach(() => vi.mocked(runFfmpeg).mockReset());
+
+  it('decodes the track to mono PCM and returns its peaks', async () => {
+    vi.mocked(runFfmpeg).mockResolvedValue({ stdout: pcm([0.5, -1, 0.25, 0.25]), stderr: '' });
+
+    expect(await computeWaveform(Buffer.from('mp3'), 2)).toEqual([1, 0.25]);
+    const [args] = vi.mocked(runFfmpeg).mock.calls[0];
+    expect(args).toEqual(expect.arrayContaining(['-ac', '1', '-f', 'f32le']));
+  });
+
+  it('returns null when ffmpeg is missing or fails', async () => {
+    vi.mocked(runFfmpeg).mockResolvedValue(null);
+    expect(await computeWaveform(Buffer.from('mp3'))).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import { createHash } from 'crypto';
+import * as admin from 'firebase-admin';
+import { initFirebaseAdmin } from './firebaseAdmin';
+import { PlayCounts, PlayWindow } from '../../src/types';
+import { log } from './utils';
+
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WINDOW_DAYS: Record<PlayWindow, number> = { day: 1, week: 7, month: 30 };
+
+interface ArtistTally {
+  name: string;
+  image: string;
+  plays: PlayCounts;
+  listeners: Set<string>;
+}
+
+function emptyCounts(): PlayCounts {
+  return { day: 0, week: 0, month: 0 };
+}
+
+/** Tracks imported without an artistId get a stable one from the name, like the local source. */
+function artistKey(data: admin.firestore.DocumentData): string {
+  if (data.artistId) return data.artistId as string;
+  return `artist-${createHash('sha1').update((data.artist as string) || '').digest('hex').slice(0, 12)}`;
+}
+
+async function commitInBatches(
+  db: admin.firestore.Firestore,
+  writes: ((batch: admin.firestore.WriteBatch) => void)[]
+): Promise<void> {
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const write of writes.slice(i, i + BATCH_SIZE)) write(batch);
+    await batch.commit();
+  }
+}
+
+/**
+ * Rolls the counted plays in every `users/{uid}/history` into `plays` on
+ * tracks and into `artists/{artistId}` (plays + distinct monthly listeners).
+ * Counters are recomputed from scratch over the last 30 days, so the script
+ * is safe to run on any schedule. DRY_RUN=1 only logs the rankings.
+ */
+async function main() {
+  const isDryRun = process.env.DRY_RUN === '1';
+
+  log('plays', '=== Spotfly Play Count Aggregation ===');
+  log('plays', `Mode: ${isDryRun ? 'DRY RUN' : 'LIVE'}`);
+
+  const db = initFirebaseAdmin();
+  const startTime = Date.now();
+  const since = (window: PlayWindow) => startTime - WINDOW_DAYS[window] * DAY_MS;
+
+  // 1. Tally counted plays per track
+  const trackPlays = new Map<string, PlayCounts>();
+  const trackListeners = new Map<string, Set<string>>();
+  let scanned = 0;
+
+  let query: admin.firestore.Query = db
+    .collectionGroup('history')
+    .where('startedAt', '>=', since('month'))
+    .orderBy('startedAt')
+    .limit(PAGE_SIZE);
+
+  while (true) {
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    for (const doc of snapshot.docs) {
+      scanned++;
+      const data = doc.data();
+      const userId = doc.ref.parent.parent?.id;
+      if (!data.counted || !data.trackId || !userId) continue;
+
+      const counts = trackPlays.get(data.trackId) || emptyCounts();
+      for (const window of Object.keys(WINDOW_DAYS) as PlayWindow[]) {
+        if (data.startedAt >= since(window)) counts[window]++;
+      }
+      trackPlays.set(data.trackId, counts);
+
+      const listeners = trackListeners.get(data.trackId) || new Set<string>();
+      listeners.add(userId);
+      trackListeners.set(data.trackId, listeners);
+    }
+
+    query = query.startAfter(snapshot.docs[snapshot.docs.length - 1]);
+  }
+
+  log('plays', `Scanned ${scanned} history entries, ${trackPlays.size} tracks played`);
+
+  // 2. Resolve tracks (deleted ones drop out) and roll up per artist
+  const artists = new Map<string, ArtistTally>();
+  const trackRefs = [...trackPlays.keys()].map(id => db.collection('tracks').doc(id));
+  const existingTracks = new Set<string>();
+
+  for (let i = 0; i < trackRefs.length; i += 100) {
+    const docs = await db.getAll(...trackRefs.slice(i, i + 100));
+    for (const doc of docs) {
+      if (!doc.exists) continue;
+      existingTracks.add(doc.id);
+      const data = doc.data()!;
+      const key = artistKey(data);
+      const tally = artists.get(key) || {
+        name: (data.artist as string) || '',
+        image: (data.artwork as string) || '',
+        plays: emptyCounts(),
+        listeners: new Set<string>(),
+      };
+      const counts = trackPlays.get(doc.id)!;
+      tally.plays.day += counts.day;
+      tally.plays.week += counts.week;
+      tally.plays.month += counts.month;
+      trackListeners.get(doc.id)?.forEach(userId => tally.listeners.add(userId));
+      artists.set(key, tally);
+    }
+  }
+
+  const topTracks = [...trackPlays.entries()]
+    .filter(([id]) => existingTracks.has(id))
+    .sort((a, b) => b[1].week - a[1].week)
+    .slice(0, 10);
+  log('plays', 'Top tracks this week:');
+  for (const [id, counts] of topTracks) {
+    log('plays', `  ${id}: ${counts.week} (day ${counts.day}, month ${counts.month})`);
+  }
+
+  const topArtists = [...artists.values()]
+    .sort((a, b) => b.listeners.size - a.listeners.size)
+    .slice(0, 10);
+  log('plays', 'Top artists by monthly listeners:');
+  for (const artist of topArtists) {
+    log('plays', `  ${artist.name}: ${artist.listeners.size} listeners, ${artist.plays.month} plays`);
+  }
+
+  if (isDryRun) {
+    log('plays', `[DRY RUN] Would update ${existingTracks.size} tracks and ${artists.size} artists`);
+    return;
+  }
+
+  // 3. Write fresh counters and zero out whatever dropped out of the window
+  const writes: ((batch: admin.firestore.WriteBatch) => void)[] = [];
+
+  for (const id of existingTracks) {
+    const ref = db.collection('tracks').doc(id);
+    const plays = trackPlays.get(id)!;
+    writes.push(batch => batch.update(ref, { plays }));
+  }
+
+  const staleTracks = await db.collection('tracks').where('plays.month', '>', 0).get();
+  for (const doc of staleTracks.docs) {
+    if (existingTracks.has(doc.id)) continue;
+    writes.push(batch => batch.update(doc.ref, { plays: emptyCounts() }));
+  }
+
+  for (const [id, artist] of artists) {
+    const ref = db.collection('artists').doc(id);
+    writes.push(batch => batch.set(ref, {
+      id,
+      name: artist.name,
+      image: artist.image,
+      monthlyListeners: artist.listeners.size,
+      plays: artist.plays,
+      statsUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true }));
+  }
+
+  const staleArtists = await db.collection('artists').where('monthlyListeners', '>', 0).get();
+  for (const doc of staleArtists.docs) {
+    if (artists.has(doc.id)) continue;
+    writes.push(batch => batch.update(doc.ref, {
+      monthlyListeners: 0,
+      plays: emptyCounts(),
+      statsUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }));
+  }
+
+  await commitInBatches(db, writes);
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  log('plays', '=== Aggregation Summary ===');
+  log('plays', `  Tracks updated: ${existingTracks.size}`);
+  log('plays', `  Artists updated: ${artists.size}`);
+  log('plays', `  Stale counters reset: ${writes.length - existingTracks.size - artists.size}`);
+  log('plays', `  Completed in ${elapsed}s`);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,128 @@
+import * as admin from 'firebase-admin';
+import { initFirebaseAdmin } from './firebaseAdmin';
+import { parseLicense, isKnownLicense } from '../../src/utils/license';
+import { LicenseInfo } from '../../src/types';
+import { log } from './utils';
+
+const PAGE_SIZE = 200;
+
+interface BackfillStats {
+  total: number;
+  updated: number;
+  skipped: number;
+  unknown: number;
+  unknownValues: Set<string>;
+}
+
+function sameLicenseInfo(stored: Partial<LicenseInfo> | undefined, parsed: LicenseInfo): boolean {
+  if (!stored) return false;
+  return (Object.keys(parsed) as (keyof LicenseInfo)[]).every(key => stored[key] === parsed[key]);
+}
+
+/**
+ * Parses the free-form `license` of every track into `licenseInfo` and
+ * rewrites `license` to the canonical URL when the terms are recognized.
+ * Same env as migrate-to-storage: DRY_RUN=1, LIMIT and START_AFTER.
+ */
+async function main() {
+  const isDryRun = process.env.DRY_RUN === '1';
+  const limitCount = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : Infinity;
+  const startAfter = process.env.START_AFTER || '';
+
+  log('license', '=== Spotfly License Backfill ===');
+  log('license', `Mode: ${isDryRun ? 'DRY RUN' : 'LIVE'}`);
+  if (limitCount < Infinity) log('license', `Limit: ${limitCount}`);
+
+  const db = initFirebaseAdmin();
+  const startTime = Date.now();
+
+  const stats: BackfillStats = {
+    total: 0,
+    updated: 0,
+    skipped: 0,
+    unknown: 0,
+    unknownValues: new Set(),
+  };
+
+  let query: admin.firestore.Query = db
+    .collection('tracks')
+    .orderBy('__name__')
+    .limit(PAGE_SIZE);
+
+  if (startAfter) {
+    const startDoc = await db.collection('tracks').doc(startAfter).get();
+    if (startDoc.exists) {
+      query = query.startAfter(startDoc);
+      log('license', `Resuming after document: ${startAfter}`);
+    } else {
+      log('license', `WARN: START_AFTER doc "${startAfter}" not found, starting from beginning`);
+    }
+  }
+
+  let lastDocId = '';
+
+  while (stats.total < limitCount) {
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let batchSize = 0;
+
+    for (const doc of snapshot.docs.slice(0, limitCount - stats.total)) {
+      stats.total++;
+      const data = doc.data();
+      const licenseInfo = parseLicense(data.license);
+      const license = licenseInfo.url || data.license || 'Creative Commons';
+
+      if (!isKnownLicense(licenseInfo)) {
+        stats.unknown++;
+        stats.unknownValues.add(String(data.license || ''));
+      }
+
+      if (license === data.license && sameLicenseInfo(data.licenseInfo, licenseInfo)) {
+        stats.skipped++;
+        continue;
+      }
+
+      if (isDryRun) {
+        log('license', `[DRY RUN] ${doc.id}: "${data.license}" -> ${licenseInfo.code}`);
+      } else {
+        batch.update(doc.ref, { license, licenseInfo });
+        batchSize++;
+      }
+      stats.updated++;
+    }
+
+    if (batchSize > 0) {
+      await batch.commit();
+      log('license', `Updated ${batchSize} tracks`);
+    }
+
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    lastDocId = lastDoc.id;
+    query = db
+      .collection('tracks')
+      .orderBy('__name__')
+      .startAfter(lastDoc)
+      .limit(PAGE_SIZE);
+  }
+
+  // Summary
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  log('license', '=== Backfill Summary ===');
+  log('license', `  Total scanned: ${stats.total}`);
+  log('license', `  Updated: ${stats.updated}`);
+  log('license', `  Skipped (already normalized): ${stats.skipped}`);
+  log('license', `  Unrecognized: ${stats.unknown}`);
+  log('license', `  Last doc ID: ${lastDocId}`);
+  log('license', `  Completed in ${elapsed}s`);
+
+  if (stats.unknownValues.size > 0) {
+    log('license', `  Unrecognized values: ${[...stats.unknownValues].map(v => `"${v}"`).join(', ')}`);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,146 @@
+import * as admin from 'firebase-admin';
+import { initFirebaseAdmin } from './firebaseAdmin';
+import { downloadToBuffer } from './storage';
+import { computeWaveform } from './waveform';
+import { log } from './utils';
+
+const CONCURRENCY = 3;
+const PAGE_SIZE = 100;
+
+interface BackfillStats {
+  total: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  failedIds: string[];
+}
+
+/**
+ * Computes `waveform` for tracks written before the importer generated it
+ * (and for tracks uploaded from the app). Needs ffmpeg on PATH (or
+ * FFMPEG_PATH). Same env as migrate-to-storage: DRY_RUN=1, LIMIT and START_AFTER.
+ */
+async function main() {
+  const isDryRun = process.env.DRY_RUN === '1';
+  const limitCount = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : Infinity;
+  const startAfter = process.env.START_AFTER || '';
+
+  log('waveform', '=== Spotfly Waveform Backfill ===');
+  log('waveform', `Mode: ${isDryRun ? 'DRY RUN' : 'LIVE'}`);
+  if (limitCount < Infinity) log('waveform', `Limit: ${limitCount}`);
+
+  const db = initFirebaseAdmin();
+  const startTime = Date.now();
+
+  const stats: BackfillStats = {
+    total: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    failedIds: [],
+  };
+
+  let query: admin.firestore.Query = db
+    .collection('tracks')
+    .orderBy('__name__')
+    .limit(PAGE_SIZE);
+
+  if (startAfter) {
+    const startDoc = await db.collection('tracks').doc(startAfter).get();
+    if (startDoc.exists) {
+      query = query.startAfter(startDoc);
+      log('waveform', `Resuming after document: ${startAfter}`);
+    } else {
+      log('waveform', `WARN: START_AFTER doc "${startAfter}" not found, starting from beginning`);
+    }
+  }
+
+  function fail(id: string, reason: string) {
+    stats.failed++;
+    stats.failedIds.push(id);
+    log('waveform', `FAIL: ${id} - ${reason}`);
+  }
+
+  let lastDocId = '';
+  let processed = 0;
+
+  while (processed < limitCount) {
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    // Firestore can't query for a missing field, so filter client-side
+    const docs = snapshot.docs.filter(doc => {
+      stats.total++;
+      if (Array.isArray(doc.data().waveform) || !doc.data().audioUrl) {
+        stats.skipped++;
+        return false;
+      }
+      return true;
+    });
+
+    for (let i = 0; i < docs.length && processed < limitCount; i += CONCURRENCY) {
+      const chunk = docs.slice(i, Math.min(i + CONCURRENCY, docs.length));
+
+      await Promise.allSettled(
+        chunk.map(async (doc) => {
+          const data = doc.data();
+
+          if (isDryRun) {
+            log('waveform', `[DRY RUN] Would compute: ${doc.id} - "${data.title}"`);
+            stats.updated++;
+            return;
+          }
+
+          const downloaded = await downloadToBuffer(data.audioUrl as string, 60000);
+          if (!downloaded) {
+            fail(doc.id, 'download failed');
+            return;
+          }
+          const waveform = await computeWaveform(downloaded.buffer);
+          if (!waveform) {
+            fail(doc.id, 'could not decode audio');
+            return;
+          }
+
+          try {
+            await doc.ref.update({ waveform });
+          } catch (err) {
+            fail(doc.id, (err as Error).message);
+            return;
+          }
+          stats.updated++;
+          log('waveform', `OK: ${doc.id} - "${data.title}"`);
+        })
+      );
+
+      processed += chunk.length;
+    }
+
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    lastDocId = lastDoc.id;
+    query = db
+      .collection('tracks')
+      .orderBy('__name__')
+      .startAfter(lastDoc)
+      .limit(PAGE_SIZE);
+  }
+
+  // Summary
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  log('waveform', '=== Backfill Summary ===');
+  log('waveform', `  Total scanned: ${stats.total}`);
+  log('waveform', `  Updated: ${stats.updated}`);
+  log('waveform', `  Skipped (already done or no audio): ${stats.skipped}`);
+  log('waveform', `  Failed: ${stats.failed}`);
+  log('waveform', `  Last doc ID: ${lastDocId}`);
+  log('waveform', `  Completed in ${elapsed}s`);
+
+  if (stats.failedIds.length > 0) {
+    log('waveform', `  Failed IDs: ${stats.failedIds.join(', ')}`);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+import { spawn } from 'child_process';
+import { log } from './utils';
+
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFMPEG_TIMEOUT_MS = 120000;
+
+let ffmpegMissing = false;
+
+/**
+ * Runs ffmpeg with `input` on stdin. Resolves with stdout and stderr, or null
+ * when ffmpeg is not installed (logged once) or fails.
+ */
+export async function runFfmpeg(
+  args: string[],
+  input: Buffer
+): Promise<{ stdout: Buffer; stderr: string } | null> {
+  if (ffmpegMissing) return null;
+
+  try {
+    return await new Promise((resolve, reject) => {
+      const child = spawn(FFMPEG, ['-hide_banner', '-nostats', ...args]);
+      const stdout: Buffer[] = [];
+      let stderr = '';
+      const timeout = setTimeout(() => child.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+
+      child.stdout.on('data', (chunk: Buffer) => { stdout.push(chunk); });
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', (err) => {
+        clearTimeout(timeout);
+        reject(err);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timeout);
+        if (code === 0) resolve({ stdout: Buffer.concat(stdout), stderr });
+        else reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim().split('\n').pop()}`));
+      });
+
+      // ffmpeg may stop reading early on a bad file; the exit code reports that
+      child.stdin.on('error', () => {});
+      child.stdin.end(input);
+    });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      ffmpegMissing = true;
+      log('ffmpeg', `${FFMPEG} not found, skipping ffmpeg-based processing`);
+    } else {
+      log('ffmpeg', (err as Error).message);
+    }
+    return null;
+  }
+}
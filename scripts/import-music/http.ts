@@ -0,0 +1,157 @@
+import { SourceError } from './types';
+import { sleep, log } from './utils';
+
+// Statuses worth retrying: timeouts, rate limits and transient server errors
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+const MAX_RETRY_AFTER_MS = 120000;
+
+export interface HttpOptions {
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  /** Extra attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/** A failed request, classified as worth retrying on a later run or not. */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly retryable: boolean,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const hostBudgets = new Map<string, number>();
+const hostUsage = new Map<string, number>();
+
+/**
+ * Caps the number of requests (retries included) sent to a host per run.
+ * Hosts without a budget are unlimited: set one only for catalog APIs, not
+ * for hosts that also serve the media a run downloads.
+ */
+export function setHostBudget(host: string, maxRequests: number): void {
+  hostBudgets.set(host, maxRequests);
+}
+
+function consumeBudget(url: string): void {
+  const host = new URL(url).host;
+  const budget = hostBudgets.get(host);
+  if (budget === undefined) return;
+  const used = hostUsage.get(host) || 0;
+  if (used >= budget) {
+    // Retryable: the next run starts with a fresh budget
+    throw new HttpError(`Request budget for ${host} exhausted (${budget})`, url, true);
+  }
+  hostUsage.set(host, used + 1);
+}
+
+/** Parses `Retry-After` (seconds or HTTP date) into milliseconds. */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with equal jitter: half fixed, half random. */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * `fetch` with retries, jittered exponential backoff, `Retry-After` support
+ * for 429/503 and optional per-host request budgets. Resolves with an OK
+ * response or rejects with an `HttpError`.
+ */
+export async function httpFetch(url: string, options: HttpOptions = {}): Promise<Response> {
+  const {
+    timeoutMs = 30000,
+    retries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 30000,
+  } = options;
+
+  let lastError: HttpError | null = null;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    consumeBudget(url);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    let delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (response.ok) return response;
+
+      const retryable = RETRYABLE_STATUS.has(response.status);
+      lastError = new HttpError(`HTTP ${response.status}`, url, retryable, response.status);
+      if (!retryable) throw lastError;
+
+      if (response.status === 429 || response.status === 503) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        if (retryAfter !== null) {
+          if (retryAfter > MAX_RETRY_AFTER_MS) throw lastError;
+          delay = retryAfter;
+        }
+      }
+    } catch (err) {
+      // Errors raised above are final; anything else is a network failure or timeout
+      if (err instanceof HttpError) throw err;
+      const message = controller.signal.aborted
+        ? `Timed out after ${timeoutMs}ms`
+        : (err as Error).message;
+      lastError = new HttpError(message, url, true);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (attempt < retries) {
+      log('http', `${lastError?.message} on ${new URL(url).host}, retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+
+  throw lastError ?? new HttpError('Request failed', url, true);
+}
+
+export async function httpGetJson<T>(url: string, options?: HttpOptions): Promise<T> {
+  const response = await httpFetch(url, options);
+  try {
+    return (await response.json()) as T;
+  } catch (err) {
+    throw new HttpError(`Invalid JSON: ${(err as Error).message}`, url, false, response.status);
+  }
+}
+
+export async function httpGetBuffer(
+  url: string,
+  options?: HttpOptions
+): Promise<{ buffer: Buffer; contentType: string }> {
+  const response = await httpFetch(url, options);
+  try {
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') || 'application/octet-stream';
+    return { buffer, contentType };
+  } catch (err) {
+    // Connection dropped mid-body
+    throw new HttpError((err as Error).message, url, true, response.status);
+  }
+}
+
+/** Classifies any thrown value for `SourceResult.errors`. */
+export function toSourceError(context: string, err: unknown): SourceError {
+  const retryable = err instanceof HttpError && err.retryable;
+  return {
+    kind: retryable ? 'retryable' : 'fatal',
+    message: `${context}: ${(err as Error).message}`,
+  };
+}
@@ -1,57 +1,114 @@
 import { initFirebaseAdmin, getStorageBucket } from './firebaseAdmin';
-import { fetchJamendo } from './sources/jamendo';
+import { RunReport, startRunReport, saveRunReport } from './report';
+import { selectSources } from './sources';
+import { updateAlbumGains } from './loudness';
+import { correctedDuration } from './probe';
 import { uploadTrackMedia } from './storage';
 import { TrackRecord, ImportStats, SourceResult } from './types';
-import { log, validateTrack } from './utils';
+import { log, validateTrack, formatSourceError } from './utils';
 import * as admin from 'firebase-admin';
 
 const BATCH_SIZE = 500;
 
 async function main() {
   log('main', '=== Spotfly Music Import Starting ===');
-  const startTime = Date.now();
+  const report = startRunReport('import-music');
+  log('main', `Run ID: ${report.runId}`);
 
   const db = initFirebaseAdmin();
   log('main', 'Firebase Admin initialized');
 
+  try {
+    await runImport(db, report);
+  } catch (err) {
+    report.error = (err as Error).message;
+    throw err;
+  } finally {
+    await saveRunReport(db, report);
+  }
+}
+
+async function runImport(db: admin.firestore.Firestore, report: RunReport) {
+  const startTime = Date.now();
+
+  const { enabled, disabled } = selectSources(process.argv.slice(2));
+  for (const { source, reason } of disabled) {
+    log('main', `Skipping source ${source.name}: ${reason}`);
+  }
+  log('main', `Sources: ${enabled.map(s => s.name).join(', ') || '(none)'}`);
+
   // Fetch from all sources concurrently (pass db for state persistence)
-  const results = await Promise.allSettled([
-    fetchJamendo(db),
-  ]);
+  const results = await Promise.allSettled(
+    enabled.map(source => source.fetch(db))
+  );
 
   const allTracks: TrackRecord[] = [];
   const allStats: ImportStats[] = [];
+  const tracksBySource = new Map<string, TrackRecord[]>();
+
+  results.forEach((result, i) => {
+    const source = enabled[i];
 
-  for (const result of results) {
     if (result.status === 'fulfilled') {
       const sr: SourceResult = result.value;
 
-      // Filter valid tracks
-      const valid = sr.tracks.filter(validateTrack);
+      // Filter valid tracks; a source may only emit IDs under its own prefix
+      const valid = sr.tracks.filter(t => {
+        if (!t.id.startsWith(source.idPrefix)) {
+          sr.errors.push({
+            kind: 'fatal',
+            message: `Track ${t.id} does not start with "${source.idPrefix}"`,
+          });
+          report.failed.push({ id: t.id, reason: `ID outside ${source.idPrefix} prefix` });
+          return false;
+        }
+        if (!validateTrack(t)) {
+          report.failed.push({ id: t.id, reason: 'failed validation' });
+          return false;
+        }
+        return true;
+      });
       allTracks.push(...valid);
+      tracksBySource.set(source.name, valid);
 
       if (sr.errors.length > 0) {
-        log(sr.sourceName, `Warnings: ${sr.errors.join('; ')}`);
+        log(source.name, `Warnings: ${sr.errors.map(formatSourceError).join('; ')}`);
       }
 
       allStats.push({
-        source: sr.sourceName,
+        source: source.name,
         fetched: sr.tracks.length,
         newTracks: 0,
         skippedDuplicates: 0,
+        sfxSkipped: sr.sfxSkipped,
         errors: sr.errors.length,
       });
+      report.sources.push({
+        source: source.name,
+        stats: {},
+        errors: sr.errors,
+        stateBefore: sr.state?.before ?? null,
+        stateAfter: sr.state?.after ?? null,
+      });
     } else {
-      log('main', `Source failed: ${result.reason}`);
+      log('main', `Source ${source.name} failed: ${result.reason}`);
       allStats.push({
-        source: 'unknown',
+        source: source.name,
         fetched: 0,
         newTracks: 0,
         skippedDuplicates: 0,
+        sfxSkipped: 0,
         errors: 1,
       });
+      report.sources.push({
+        source: source.name,
+        stats: {},
+        errors: [{ kind: 'fatal', message: String(result.reason) }],
+        stateBefore: null,
+        stateAfter: null,
+      });
     }
-  }
+  });
 
   log('main', `Total valid tracks fetched: ${allTracks.length}`);
 
@@ -68,18 +125,15 @@ async function main() {
   );
 
   // Update per-source stats
-  const sourcePrefixMap: Record<string, string> = {
-    jamendo: 'jamendo-',
-  };
   for (const stat of allStats) {
-    const prefix = sourcePrefixMap[stat.source] || stat.source;
-    const sourceTracks = allTracks.filter(t => t.id.startsWith(prefix));
-    const sourceNew = newTracks.filter(t => t.id.startsWith(prefix));
+    const sourceTracks = tracksBySource.get(stat.source) || [];
+    const sourceNew = sourceTracks.filter(t => !existingIds.has(t.id));
     stat.newTracks = sourceNew.length;
     stat.skippedDuplicates = sourceTracks.length - sourceNew.length;
   }
 
   // Upload media to Firebase Storage for new tracks
+  const dropped = new Set<string>();
   if (newTracks.length > 0 && process.env.DRY_RUN !== '1') {
     const bucket = getStorageBucket();
     log('main', `Uploading ${newTracks.length} tracks to Firebase Storage...`);
@@ -98,22 +152,42 @@ async function main() {
             track.audioUrl,
             track.artwork
           );
-          if (result) {
+          if (result.ok) {
             track.originalAudioUrl = result.originalAudioUrl;
             track.originalArtwork = result.originalArtwork;
             track.audioUrl = result.audioUrl;
             track.artwork = result.artwork;
+            if (track.artwork.startsWith('file://')) {
+              // Local cover failed to upload; never write a disk path
+              track.artwork = `https://picsum.photos/seed/${track.id}/300/300`;
+            }
+            if (Object.keys(result.artworkVariants).length > 0) {
+              track.artworkVariants = result.artworkVariants;
+            }
+            if (result.waveform) track.waveform = result.waveform;
+            if (result.loudness) Object.assign(track, result.loudness);
+            const duration = correctedDuration(track.duration, result.probe);
+            if (duration !== null) {
+              log('main', `${track.id}: duration ${track.duration}s -> ${duration}s (probed)`);
+              track.duration = duration;
+            }
             uploaded++;
+          } else if (result.rejected || track.audioUrl.startsWith('file://')) {
+            // Bad audio, or a disk path that can't be published as-is
+            log('main', `WARN: Dropping ${track.id}: ${result.reason}`);
+            dropped.add(track.id);
+            report.failed.push({ id: track.id, reason: result.reason });
           } else {
-            log('main', `WARN: Could not upload ${track.id} to Storage, keeping Jamendo URL`);
+            log('main', `WARN: Could not upload ${track.id} to Storage, keeping source URL`);
             kept++;
           }
         })
       );
     }
 
-    log('main', `Storage upload complete: ${uploaded} uploaded, ${kept} kept original URL`);
+    log('main', `Storage upload complete: ${uploaded} uploaded, ${kept} kept original URL, ${dropped.size} dropped`);
   }
+  const tracksToWrite = newTracks.filter(t => !dropped.has(t.id));
 
   // Write new tracks (or dry run)
   if (process.env.DRY_RUN === '1') {
@@ -121,8 +195,12 @@ async function main() {
     for (const t of newTracks.slice(0, 5)) {
       log('main', `  - ${t.id}: "${t.title}" by ${t.artist} [${t.genre}]`);
     }
-  } else if (newTracks.length > 0) {
-    await batchWriteTracks(db, newTracks);
+  } else if (tracksToWrite.length > 0) {
+    await batchWriteTracks(db, tracksToWrite, report);
+    await updateAlbumGains(
+      db,
+      tracksToWrite.filter(t => t.loudnessLufs !== undefined).map(t => t.albumId)
+    );
   }
 
   // Summary
@@ -131,10 +209,13 @@ async function main() {
   for (const stat of allStats) {
     log(
       'main',
-      `  ${stat.source}: fetched=${stat.fetched} new=${stat.newTracks} dupes=${stat.skippedDuplicates} errors=${stat.errors}`
+      `  ${stat.source}: fetched=${stat.fetched} new=${stat.newTracks} dupes=${stat.skippedDuplicates} sfx=${stat.sfxSkipped} errors=${stat.errors}`
     );
+    const { source, ...counts } = stat;
+    const entry = report.sources.find(s => s.source === source);
+    if (entry) entry.stats = counts;
   }
-  log('main', `Total new tracks written: ${newTracks.length}`);
+  log('main', `Total new tracks written: ${report.writtenIds.length}`);
   log('main', `Completed in ${elapsed}s`);
 }
 
@@ -162,7 +243,8 @@ async function batchCheckExisting(
 
 async function batchWriteTracks(
   db: admin.firestore.Firestore,
-  tracks: TrackRecord[]
+  tracks: TrackRecord[],
+  report: RunReport
 ): Promise<void> {
   for (let i = 0; i < tracks.length; i += BATCH_SIZE) {
     const chunk = tracks.slice(i, i + BATCH_SIZE);
@@ -172,11 +254,22 @@ async function batchWriteTracks(
       const ref = db.collection('tracks').doc(track.id);
       batch.set(ref, {
         ...track,
+        // Lets rollback-import find every doc written by this run
+        importRunId: report.runId,
         addedAt: admin.firestore.FieldValue.serverTimestamp(),
       });
     }
 
-    await batch.commit();
+    try {
+      await batch.commit();
+    } catch (err) {
+      // Keep going so the report lists exactly which tracks made it in
+      const reason = `batch write failed: ${(err as Error).message}`;
+      log('main', `WARN: ${reason}`);
+      report.failed.push(...chunk.map(t => ({ id: t.id, reason })));
+      continue;
+    }
+    report.writtenIds.push(...chunk.map(t => t.id));
     log(
       'main',
       `Wrote batch of ${chunk.length} tracks (${i + chunk.length}/${tracks.length})`
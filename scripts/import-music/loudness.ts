@@ -0,0 +1,94 @@
+import * as admin from 'firebase-admin';
+import { runFfmpeg } from './ffmpeg';
+import { log } from './utils';
+
+// ReplayGain 2.0 reference level
+const TARGET_LUFS = -18;
+const BATCH_SIZE = 500;
+
+export interface Loudness {
+  /** EBU R128 integrated loudness. */
+  loudnessLufs: number;
+  /** Gain that brings the track to TARGET_LUFS. */
+  gainDb: number;
+  /** True peak, linear (1.0 = 0 dBFS). */
+  peak: number;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/** Pulls integrated loudness and true peak out of the ebur128 summary. */
+export function parseEbur128Summary(stderr: string): { lufs: number; peakDb: number } | null {
+  const summary = stderr.slice(stderr.lastIndexOf('Summary:'));
+  const lufs = summary.match(/I:\s+(-?[\d.]+) LUFS/);
+  const peak = summary.match(/Peak:\s+(-?[\d.]+|-inf) dBFS/);
+  if (!lufs || !peak) return null;
+  return {
+    lufs: parseFloat(lufs[1]),
+    peakDb: peak[1] === '-inf' ? -Infinity : parseFloat(peak[1]),
+  };
+}
+
+/**
+ * Decodes the audio with ffmpeg and measures EBU R128 loudness. Returns null
+ * when ffmpeg is not installed, fails, or the track is silent.
+ */
+export async function measureLoudness(buf: Buffer): Promise<Loudness | null> {
+  const result = await runFfmpeg(
+    ['-i', 'pipe:0', '-map', '0:a:0', '-af', 'ebur128=peak=true', '-f', 'null', '-'],
+    buf
+  );
+  if (!result) return null;
+
+  const summary = parseEbur128Summary(result.stderr);
+  if (!summary || !Number.isFinite(summary.lufs) || summary.lufs <= -70) return null;
+
+  return {
+    loudnessLufs: round(summary.lufs),
+    gainDb: round(TARGET_LUFS - summary.lufs),
+    peak: Number.isFinite(summary.peakDb) ? round(10 ** (summary.peakDb / 20), 4) : 0,
+  };
+}
+
+/**
+ * Recomputes `albumGainDb` / `albumPeak` for every track of the given albums
+ * from their per-track loudness (duration-weighted energy mean).
+ */
+export async function updateAlbumGains(
+  db: admin.firestore.Firestore,
+  albumIds: string[]
+): Promise<void> {
+  for (const albumId of new Set(albumIds.filter(Boolean))) {
+    try {
+      const snapshot = await db.collection('tracks').where('albumId', '==', albumId).get();
+      const measured = snapshot.docs.filter(doc => typeof doc.data().loudnessLufs === 'number');
+      if (measured.length === 0) continue;
+
+      let energy = 0;
+      let weight = 0;
+      let albumPeak = 0;
+      for (const doc of measured) {
+        const data = doc.data();
+        const duration = (data.duration as number) || 1;
+        energy += duration * 10 ** ((data.loudnessLufs as number) / 10);
+        weight += duration;
+        albumPeak = Math.max(albumPeak, (data.peak as number) || 0);
+      }
+      const albumGainDb = round(TARGET_LUFS - 10 * Math.log10(energy / weight));
+
+      for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+        const batch = db.batch();
+        for (const doc of snapshot.docs.slice(i, i + BATCH_SIZE)) {
+          batch.update(doc.ref, { albumGainDb, albumPeak });
+        }
+        await batch.commit();
+      }
+      log('loudness', `Album ${albumId}: ${albumGainDb} dB over ${measured.length}/${snapshot.size} tracks`);
+    } catch (err) {
+      log('loudness', `WARN: album gain for ${albumId} failed: ${(err as Error).message}`);
+    }
+  }
+}
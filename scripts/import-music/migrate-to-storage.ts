@@ -1,5 +1,8 @@
 import * as admin from 'firebase-admin';
 import { initFirebaseAdmin, getStorageBucket } from './firebaseAdmin';
+import { RunReport, startRunReport, saveRunReport } from './report';
+import { updateAlbumGains } from './loudness';
+import { correctedDuration } from './probe';
 import { uploadTrackMedia } from './storage';
 import { log } from './utils';
 
@@ -15,6 +18,20 @@ interface MigrationStats {
 }
 
 async function main() {
+  const report = startRunReport('migrate-to-storage');
+  const db = initFirebaseAdmin();
+
+  try {
+    await runMigration(db, report);
+  } catch (err) {
+    report.error = (err as Error).message;
+    throw err;
+  } finally {
+    await saveRunReport(db, report);
+  }
+}
+
+async function runMigration(db: admin.firestore.Firestore, report: RunReport) {
   const isDryRun = process.env.DRY_RUN === '1';
   const limitCount = process.env.LIMIT ? parseInt(process.env.LIMIT, 10) : Infinity;
   const startAfter = process.env.START_AFTER || '';
@@ -24,8 +41,8 @@ async function main() {
   log('migrate', `Concurrency: ${CONCURRENCY}`);
   if (limitCount < Infinity) log('migrate', `Limit: ${limitCount}`);
   if (startAfter) log('migrate', `Resuming after: ${startAfter}`);
+  log('migrate', `Run ID: ${report.runId}`);
 
-  const db = initFirebaseAdmin();
   const bucket = getStorageBucket();
   const startTime = Date.now();
 
@@ -56,6 +73,7 @@ async function main() {
 
   let lastDocId = '';
   let hasMore = true;
+  const measuredAlbums: string[] = [];
   let processed = 0;
 
   while (hasMore && processed < limitCount) {
@@ -99,19 +117,37 @@ async function main() {
           // Download + Upload
           const result = await uploadTrackMedia(bucket, doc.id, audioUrl, artworkUrl);
 
-          if (result) {
+          if (!result.ok) {
+            stats.failed++;
+            stats.failedIds.push(doc.id);
+            report.failed.push({ id: doc.id, reason: result.reason });
+            return;
+          }
+
+          const duration = correctedDuration((data.duration as number) || 0, result.probe);
+          try {
             await doc.ref.update({
               audioUrl: result.audioUrl,
               artwork: result.artwork,
               originalAudioUrl: result.originalAudioUrl,
               originalArtwork: result.originalArtwork,
+              ...(duration !== null ? { duration } : {}),
+              ...(Object.keys(result.artworkVariants).length > 0
+                ? { artworkVariants: result.artworkVariants }
+                : {}),
+              ...(result.waveform ? { waveform: result.waveform } : {}),
+              ...(result.loudness || {}),
             });
-            stats.migrated++;
-            log('migrate', `OK: ${doc.id} - "${data.title}"`);
-          } else {
+          } catch (err) {
             stats.failed++;
             stats.failedIds.push(doc.id);
+            report.failed.push({ id: doc.id, reason: `update failed: ${(err as Error).message}` });
+            return;
           }
+          stats.migrated++;
+          report.writtenIds.push(doc.id);
+          if (result.loudness) measuredAlbums.push(data.albumId as string);
+          log('migrate', `OK: ${doc.id} - "${data.title}"`);
         })
       );
 
@@ -127,6 +163,10 @@ async function main() {
       .limit(PAGE_SIZE);
   }
 
+  if (measuredAlbums.length > 0) {
+    await updateAlbumGains(db, measuredAlbums);
+  }
+
   // Summary
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   log('migrate', '=== Migration Summary ===');
@@ -140,6 +180,16 @@ async function main() {
   if (stats.failedIds.length > 0) {
     log('migrate', `  Failed IDs: ${stats.failedIds.join(', ')}`);
   }
+
+  const { failedIds, ...counts } = stats;
+  report.sources.push({
+    source: 'storage-migration',
+    stats: counts,
+    errors: [],
+    // Pass stateAfter.lastDocId as START_AFTER to resume
+    stateBefore: { startAfter },
+    stateAfter: { lastDocId },
+  });
 }
 
 main().catch((err) => {
@@ -0,0 +1,455 @@
+// ── Audio probing (MPEG audio, FLAC and Ogg Vorbis/Opus) ────────────────────
+// Walks the container/frame headers to get the real duration and stream
+// parameters, and to spot files that are not audio, truncated or silent.
+
+import { id3v2Length, readOggPackets } from './tags';
+
+export type AudioFormat = 'mp3' | 'flac' | 'vorbis' | 'opus';
+
+export interface AudioProbe {
+  format: AudioFormat;
+  contentType: string;
+  extension: string;
+  durationMs: number;
+  /** Average bitrate in kbps. */
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  /** The stream ends before its headers say it should. */
+  truncated: boolean;
+  /** Every frame is silence; null when the format can't tell without decoding. */
+  silent: boolean | null;
+}
+
+/** The buffer is not audio the probe understands. */
+export class ProbeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProbeError';
+  }
+}
+
+const MIN_DURATION_MS = 5000;
+// Reported durations within this many seconds of the probe are left alone
+const DURATION_TOLERANCE_S = 2;
+// Consecutive MPEG frames needed before a sync word is trusted
+const MIN_SYNC_FRAMES = 4;
+const MAX_SYNC_SCAN = 256 * 1024;
+// An MP3 with fewer frames than this share of its declared count is truncated
+const MIN_DECLARED_FRAMES = 0.9;
+
+const FORMATS: Record<AudioFormat, { contentType: string; extension: string }> = {
+  mp3: { contentType: 'audio/mpeg', extension: '.mp3' },
+  flac: { contentType: 'audio/flac', extension: '.flac' },
+  vorbis: { contentType: 'audio/ogg', extension: '.ogg' },
+  opus: { contentType: 'audio/ogg', extension: '.opus' },
+};
+
+function readBits(buf: Buffer, bitOffset: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    const bit = bitOffset + i;
+    value = (value << 1) | ((buf[bit >> 3] >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+}
+
+function bitrateOf(bytes: number, durationMs: number): number {
+  return durationMs > 0 ? Math.round((bytes * 8) / durationMs) : 0;
+}
+
+// ── MPEG audio ─────────────────────────────────────────────────────────────
+
+// kbps by [MPEG-1 ? 0 : 1][layer - 1][index]
+const MPEG_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+// Hz by version bits (0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1)
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+interface MpegFrame {
+  version: number;
+  layer: number;
+  sampleRate: number;
+  channels: number;
+  samples: number;
+  length: number;
+  /** Offset of the side info (past the header and CRC). */
+  sideInfo: number;
+}
+
+function readMpegFrame(buf: Buffer, offset: number): MpegFrame | null {
+  if (offset + 4 > buf.length) return null;
+  if (buf[offset] !== 0xff || (buf[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (buf[offset + 1] >> 3) & 3;
+  const layerBits = (buf[offset + 1] >> 1) & 3;
+  const bitrateIndex = buf[offset + 2] >> 4;
+  const rateIndex = (buf[offset + 2] >> 2) & 3;
+  if (version === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+    return null;
+  }
+
+  const layer = 4 - layerBits;
+  const mpeg1 = version === 3;
+  const bitrate = MPEG_BITRATES[mpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version][rateIndex];
+  const padding = (buf[offset + 2] >> 1) & 1;
+  const samples = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+  const hasCrc = (buf[offset + 1] & 1) === 0;
+
+  return {
+    version,
+    layer,
+    sampleRate,
+    channels: buf[offset + 3] >> 6 === 3 ? 1 : 2,
+    samples,
+    length,
+    sideInfo: offset + 4 + (hasCrc ? 2 : 0),
+  };
+}
+
+function sameStream(a: MpegFrame, b: MpegFrame): boolean {
+  return a.version === b.version && a.layer === b.layer && a.sampleRate === b.sampleRate;
+}
+
+/** First offset followed by a run of consistent frames, or -1. */
+function findMpegSync(buf: Buffer, start: number): number {
+  const limit = Math.min(buf.length, start + MAX_SYNC_SCAN);
+  for (let offset = buf.indexOf(0xff, start); offset !== -1 && offset < limit; offset = buf.indexOf(0xff, offset + 1)) {
+    const first = readMpegFrame(buf, offset);
+    if (!first) continue;
+
+    let next = offset + first.length;
+    let run = 1;
+    while (run < MIN_SYNC_FRAMES) {
+      const frame = readMpegFrame(buf, next);
+      if (!frame || !sameStream(first, frame)) break;
+      next += frame.length;
+      run++;
+    }
+    if (run >= MIN_SYNC_FRAMES) return offset;
+  }
+  return -1;
+}
+
+/**
+ * Reads a Xing/Info/VBRI header frame, which carries no audio and is not
+ * counted. Returns the frame count it declares (0 when it has none), or null
+ * when the frame is plain audio.
+ */
+function readVbrHeader(buf: Buffer, offset: number, frame: MpegFrame): { frames: number } | null {
+  const sideInfoSize = frame.version === 3
+    ? (frame.channels === 1 ? 17 : 32)
+    : (frame.channels === 1 ? 9 : 17);
+  const xing = frame.sideInfo + sideInfoSize;
+  const tag = buf.toString('latin1', xing, xing + 4);
+  if (tag === 'Xing' || tag === 'Info') {
+    const hasFrames = xing + 12 <= buf.length && (buf.readUInt32BE(xing + 4) & 1) === 1;
+    return { frames: hasFrames ? buf.readUInt32BE(xing + 8) : 0 };
+  }
+  if (buf.toString('latin1', offset + 36, offset + 40) === 'VBRI') {
+    return { frames: offset + 54 <= buf.length ? buf.readUInt32BE(offset + 50) : 0 };
+  }
+  return null;
+}
+
+/**
+ * Layer III frames of digital silence carry no Huffman data: every granule's
+ * part2_3_length is 0.
+ */
+function hasMainData(buf: Buffer, frame: MpegFrame): boolean {
+  const mpeg1 = frame.version === 3;
+  const nch = frame.channels;
+  let bit = frame.sideInfo * 8;
+
+  if (mpeg1) {
+    bit += 9 + (nch === 1 ? 5 : 3) + 4 * nch;
+  } else {
+    bit += 8 + (nch === 1 ? 1 : 2);
+  }
+
+  const granules = mpeg1 ? 2 : 1;
+  const granuleBits = mpeg1 ? 59 : 63;
+  for (let gr = 0; gr < granules; gr++) {
+    for (let ch = 0; ch < nch; ch++) {
+      if (readBits(buf, bit, 12) > 0) return true;
+      bit += granuleBits;
+    }
+  }
+  return false;
+}
+
+function probeMpeg(buf: Buffer): AudioProbe {
+  const hasId3v1 = buf.length >= 128 && buf.toString('latin1', buf.length - 128, buf.length - 125) === 'TAG';
+  const end = hasId3v1 ? buf.length - 128 : buf.length;
+
+  const start = findMpegSync(buf, id3v2Length(buf));
+  if (start === -1) throw new ProbeError('No MPEG audio frames found');
+
+  const first = readMpegFrame(buf, start)!;
+  let offset = start;
+  let frames = 0;
+  let samples = 0;
+  let audioFrames = 0;
+  let declaredFrames = 0;
+
+  while (offset < end) {
+    const frame = readMpegFrame(buf, offset);
+    if (!frame || !sameStream(first, frame)) {
+      // Junk between frames (or a trailing APE/Lyrics tag): resync
+      const next = findMpegSync(buf, offset + 1);
+      if (next === -1) break;
+      offset = next;
+      continue;
+    }
+    // Encoders and cutters often leave the last frame short; that alone isn't truncation
+    if (offset + frame.length > end) break;
+
+    const vbrHeader = offset === start ? readVbrHeader(buf, offset, frame) : null;
+    if (vbrHeader) {
+      declaredFrames = vbrHeader.frames;
+    } else {
+      samples += frame.samples;
+      if (frame.layer === 3 && hasMainData(buf, frame)) audioFrames++;
+      frames++;
+    }
+    offset += frame.length;
+  }
+
+  const durationMs = Math.round((samples / first.sampleRate) * 1000);
+  return {
+    format: 'mp3',
+    ...FORMATS.mp3,
+    durationMs,
+    bitrate: bitrateOf(offset - start, durationMs),
+    sampleRate: first.sampleRate,
+    channels: first.channels,
+    truncated: frames < declaredFrames * MIN_DECLARED_FRAMES,
+    silent: first.layer === 3 ? frames > 0 && audioFrames === 0 : null,
+  };
+}
+
+// ── FLAC ───────────────────────────────────────────────────────────────────
+
+function crc8(buf: Buffer, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc ^= buf[i];
+    for (let b = 0; b < 8; b++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+interface FlacFrame {
+  /** First sample of the frame. */
+  sample: number;
+  blockSize: number;
+  /** Subframe type of the first channel: 0 = CONSTANT. */
+  subframeType: number;
+}
+
+/** Parses and CRC-checks a frame header; `fixedBlockSize` turns frame numbers into samples. */
+function readFlacFrame(buf: Buffer, offset: number, fixedBlockSize: number): FlacFrame | null {
+  if (offset + 6 > buf.length || buf[offset] !== 0xff || (buf[offset + 1] & 0xfe) !== 0xf8) return null;
+
+  const variable = (buf[offset + 1] & 1) === 1;
+  const blockCode = buf[offset + 2] >> 4;
+  const rateCode = buf[offset + 2] & 0x0f;
+  if (blockCode === 0 || rateCode === 15 || buf[offset + 3] >> 4 > 10 || (buf[offset + 3] & 1) !== 0) {
+    return null;
+  }
+
+  // UTF-8 style coded frame/sample number
+  let pos = offset + 4;
+  const lead = buf[pos++];
+  let extra = 0;
+  while (extra < 7 && lead & (0x80 >> extra)) extra++;
+  if (extra === 1 || extra > 7) return null;
+  let number = extra === 0 ? lead : lead & (0xff >> (extra + 1));
+  for (let i = 1; i < extra; i++) {
+    const byte = buf[pos++];
+    if ((byte & 0xc0) !== 0x80) return null;
+    number = number * 64 + (byte & 0x3f);
+  }
+
+  let blockSize: number;
+  if (blockCode === 1) blockSize = 192;
+  else if (blockCode <= 5) blockSize = 576 << (blockCode - 2);
+  else if (blockCode === 6) blockSize = buf[pos++] + 1;
+  else if (blockCode === 7) {
+    blockSize = buf.readUInt16BE(pos) + 1;
+    pos += 2;
+  } else blockSize = 256 << (blockCode - 8);
+
+  if (rateCode === 12) pos += 1;
+  else if (rateCode === 13 || rateCode === 14) pos += 2;
+
+  if (pos + 1 >= buf.length || crc8(buf, offset, pos) !== buf[pos]) return null;
+
+  return {
+    sample: variable ? number : number * fixedBlockSize,
+    blockSize,
+    subframeType: (buf[pos + 1] >> 1) & 0x3f,
+  };
+}
+
+function probeFlac(buf: Buffer, start: number): AudioProbe {
+  let offset = start + 4; // "fLaC"
+  let streamInfo: Buffer | null = null;
+  let last = false;
+
+  while (!last && offset + 4 <= buf.length) {
+    last = (buf[offset] & 0x80) !== 0;
+    const type = buf[offset] & 0x7f;
+    const length = (buf[offset + 1] << 16) | (buf[offset + 2] << 8) | buf[offset + 3];
+    if (type === 0) streamInfo = buf.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+  }
+  if (!streamInfo || streamInfo.length < 34) throw new ProbeError('FLAC stream has no STREAMINFO');
+
+  const minBlockSize = streamInfo.readUInt16BE(0);
+  const sampleRate = (streamInfo[10] << 12) | (streamInfo[11] << 4) | (streamInfo[12] >> 4);
+  const channels = ((streamInfo[12] >> 1) & 7) + 1;
+  const totalSamples = (streamInfo[13] & 0x0f) * 2 ** 32 + streamInfo.readUInt32BE(14);
+  if (sampleRate === 0) throw new ProbeError('FLAC STREAMINFO has no sample rate');
+
+  // Follow the chain of frames whose first sample continues the previous one;
+  // sync words that turn up inside audio data fail the CRC or the continuity check
+  const audioStart = offset;
+  let decoded = 0;
+  let frames = 0;
+  let constantFrames = 0;
+  for (let pos = buf.indexOf(0xff, audioStart); pos !== -1; pos = buf.indexOf(0xff, pos + 1)) {
+    const frame = readFlacFrame(buf, pos, minBlockSize);
+    if (!frame || frame.sample !== decoded) continue;
+    decoded += frame.blockSize;
+    frames++;
+    if (frame.subframeType === 0) constantFrames++;
+  }
+  if (frames === 0) throw new ProbeError('No FLAC frames found');
+
+  const durationMs = Math.round((decoded / sampleRate) * 1000);
+  return {
+    format: 'flac',
+    ...FORMATS.flac,
+    durationMs,
+    bitrate: bitrateOf(buf.length - audioStart, durationMs),
+    sampleRate,
+    channels,
+    truncated: totalSamples > 0 && decoded < totalSamples,
+    silent: constantFrames === frames,
+  };
+}
+
+// ── Ogg Vorbis / Opus ──────────────────────────────────────────────────────
+
+function probeOgg(buf: Buffer): AudioProbe {
+  const [head] = readOggPackets(buf, 1);
+  if (!head) throw new ProbeError('Empty Ogg stream');
+
+  let format: AudioFormat;
+  let sampleRate: number;
+  let channels: number;
+  let preSkip = 0;
+  if (head[0] === 0x01 && head.toString('latin1', 1, 7) === 'vorbis' && head.length >= 16) {
+    format = 'vorbis';
+    channels = head[11];
+    sampleRate = head.readUInt32LE(12);
+  } else if (head.toString('latin1', 0, 8) === 'OpusHead' && head.length >= 12) {
+    format = 'opus';
+    channels = head[9];
+    preSkip = head.readUInt16LE(10);
+    sampleRate = 48000; // Opus always decodes at 48 kHz
+  } else {
+    throw new ProbeError('Unsupported Ogg codec');
+  }
+  if (sampleRate === 0) throw new ProbeError('Ogg stream has no sample rate');
+
+  const serial = buf.readUInt32LE(14);
+  let offset = 0;
+  let granule = 0;
+  let eos = false;
+  let truncated = false;
+
+  while (offset + 27 <= buf.length) {
+    if (buf.toString('latin1', offset, offset + 4) !== 'OggS') {
+      const next = buf.indexOf('OggS', offset + 1, 'latin1');
+      if (next === -1) break;
+      offset = next;
+      continue;
+    }
+    const segments = buf[offset + 26];
+    let size = 27 + segments;
+    for (let i = 0; i < segments && offset + 27 + i < buf.length; i++) size += buf[offset + 27 + i];
+    if (offset + size > buf.length) {
+      truncated = true;
+      break;
+    }
+
+    if (buf.readUInt32LE(offset + 14) === serial) {
+      const position = buf.readBigInt64LE(offset + 6);
+      if (position >= 0n) granule = Number(position);
+      if (buf[offset + 5] & 0x04) eos = true;
+    }
+    offset += size;
+  }
+
+  const durationMs = Math.round((Math.max(0, granule - preSkip) / sampleRate) * 1000);
+  return {
+    format,
+    ...FORMATS[format],
+    durationMs,
+    bitrate: bitrateOf(buf.length, durationMs),
+    sampleRate,
+    channels,
+    truncated: truncated || !eos,
+    silent: null,
+  };
+}
+
+/**
+ * Identifies MP3, FLAC and Ogg Vorbis/Opus audio and reads its real duration
+ * and stream parameters. Throws `ProbeError` for anything else.
+ */
+export function probeAudio(buf: Buffer): AudioProbe {
+  const id3Length = id3v2Length(buf);
+  if (buf.toString('latin1', id3Length, id3Length + 4) === 'fLaC') return probeFlac(buf, id3Length);
+  if (buf.toString('latin1', 0, 4) === 'OggS') return probeOgg(buf);
+  return probeMpeg(buf);
+}
+
+/** Why a probed file should not be published, or null when it is fine. */
+export function probeProblem(probe: AudioProbe): string | null {
+  if (probe.truncated) return 'truncated';
+  if (probe.silent) return 'silent';
+  if (probe.durationMs < MIN_DURATION_MS) {
+    return `too short (${(probe.durationMs / 1000).toFixed(1)}s)`;
+  }
+  return null;
+}
+
+/** The probed duration in seconds when the reported one is 0 or off, else null. */
+export function correctedDuration(reported: number, probe: AudioProbe): number | null {
+  const probed = Math.round(probe.durationMs / 1000);
+  return Math.abs(probed - reported) > DURATION_TOLERANCE_S ? probed : null;
+}
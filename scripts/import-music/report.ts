@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { SourceError } from './types';
+import { log } from './utils';
+
+const RUNS_COLLECTION = 'import-runs';
+const REPORT_DIR = process.env.REPORT_DIR || path.resolve(process.cwd(), 'import-reports');
+
+export interface FailedItem {
+  id: string;
+  reason: string;
+}
+
+export interface SourceRunReport {
+  source: string;
+  /** Counters for the source, e.g. fetched/newTracks or migrated/skipped. */
+  stats: Record<string, number>;
+  errors: SourceError[];
+  /** Persisted cursor (import-state doc, START_AFTER…) before and after the run. */
+  stateBefore: unknown;
+  stateAfter: unknown;
+}
+
+/** Machine-readable record of one importer or migration run. */
+export interface RunReport {
+  runId: string;
+  script: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string | null;
+  durationSeconds: number;
+  sources: SourceRunReport[];
+  writtenIds: string[];
+  failed: FailedItem[];
+  /** Set when the run aborted with a fatal error. */
+  error?: string;
+}
+
+export function startRunReport(script: string): RunReport {
+  const startedAt = new Date();
+  const stamp = startedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return {
+    runId: `${script}-${stamp}-${randomBytes(3).toString('hex')}`,
+    script,
+    dryRun: process.env.DRY_RUN === '1',
+    startedAt: startedAt.toISOString(),
+    finishedAt: null,
+    durationSeconds: 0,
+    sources: [],
+    writtenIds: [],
+    failed: [],
+  };
+}
+
+/**
+ * Finalizes the report and writes it to `REPORT_DIR/<runId>.json` and to the
+ * `import-runs` collection. Never throws: a failed report must not fail the run.
+ */
+export async function saveRunReport(
+  db: admin.firestore.Firestore | null,
+  report: RunReport
+): Promise<void> {
+  const finishedAt = new Date();
+  report.finishedAt = finishedAt.toISOString();
+  report.durationSeconds = (finishedAt.getTime() - Date.parse(report.startedAt)) / 1000;
+
+  // Round-trip through JSON: drops `undefined`, which Firestore rejects
+  const data = JSON.parse(JSON.stringify(report));
+
+  try {
+    await fs.mkdir(REPORT_DIR, { recursive: true });
+    const file = path.join(REPORT_DIR, `${report.runId}.json`);
+    await fs.writeFile(file, JSON.stringify(data, null, 2));
+    log('report', `Report written to ${file}`);
+  } catch (err) {
+    log('report', `Could not write report file: ${(err as Error).message}`);
+  }
+
+  if (!db) return;
+  try {
+    await db.collection(RUNS_COLLECTION).doc(report.runId).set(data);
+    log('report', `Report saved to ${RUNS_COLLECTION}/${report.runId}`);
+  } catch (err) {
+    log('report', `Could not save report to Firestore: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,119 @@
+import * as admin from 'firebase-admin';
+import { initFirebaseAdmin, getStorageBucket } from './firebaseAdmin';
+import { deleteTrackMedia } from './storage';
+import { log } from './utils';
+
+const CONCURRENCY = 3;
+const PAGE_SIZE = 100;
+
+interface RollbackStats {
+  tracks: number;
+  deleted: number;
+  objects: number;
+  failed: number;
+  failedIds: string[];
+}
+
+/**
+ * Undo an import run: deletes every track doc tagged with the run ID and its
+ * Storage objects. Usage: `npx tsx scripts/import-music/rollback-import.ts <runId>`
+ * (or RUN_ID=<runId>), with DRY_RUN=1 to only list what would be deleted.
+ */
+async function main() {
+  const isDryRun = process.env.DRY_RUN === '1';
+  const runId = process.argv[2] || process.env.RUN_ID || '';
+  if (!runId) {
+    throw new Error('Usage: rollback-import.ts <runId> (or set RUN_ID)');
+  }
+
+  log('rollback', '=== Spotfly Import Rollback ===');
+  log('rollback', `Mode: ${isDryRun ? 'DRY RUN' : 'LIVE'}`);
+  log('rollback', `Run ID: ${runId}`);
+
+  const db = initFirebaseAdmin();
+  const bucket = getStorageBucket();
+  const startTime = Date.now();
+
+  const runRef = db.collection('import-runs').doc(runId);
+  const runDoc = await runRef.get();
+  if (runDoc.exists) {
+    const run = runDoc.data()!;
+    log('rollback', `Run started ${run.startedAt}, wrote ${(run.writtenIds || []).length} tracks`);
+  } else {
+    log('rollback', `WARN: no import-runs/${runId} report, rolling back by tag only`);
+  }
+
+  const stats: RollbackStats = {
+    tracks: 0,
+    deleted: 0,
+    objects: 0,
+    failed: 0,
+    failedIds: [],
+  };
+
+  const baseQuery = db
+    .collection('tracks')
+    .where('importRunId', '==', runId)
+    .orderBy('__name__')
+    .limit(PAGE_SIZE);
+  let query: admin.firestore.Query = baseQuery;
+
+  while (true) {
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+    const docs = snapshot.docs;
+
+    for (let i = 0; i < docs.length; i += CONCURRENCY) {
+      const chunk = docs.slice(i, i + CONCURRENCY);
+
+      await Promise.allSettled(
+        chunk.map(async (doc) => {
+          stats.tracks++;
+          try {
+            // Storage first: if it fails the doc stays and a re-run retries it
+            const objects = await deleteTrackMedia(bucket, doc.id, isDryRun);
+            stats.objects += objects.length;
+
+            if (isDryRun) {
+              log('rollback', `[DRY RUN] Would delete: ${doc.id} - "${doc.data().title}" (${objects.length} objects)`);
+            } else {
+              await doc.ref.delete();
+              log('rollback', `Deleted: ${doc.id} (${objects.length} objects)`);
+            }
+            stats.deleted++;
+          } catch (err) {
+            log('rollback', `FAIL ${doc.id}: ${(err as Error).message}`);
+            stats.failed++;
+            stats.failedIds.push(doc.id);
+          }
+        })
+      );
+    }
+
+    query = baseQuery.startAfter(docs[docs.length - 1]);
+  }
+
+  if (!isDryRun && runDoc.exists) {
+    await runRef.update({
+      rolledBackAt: new Date().toISOString(),
+      rolledBackTracks: stats.deleted,
+    });
+  }
+
+  // Summary
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  log('rollback', '=== Rollback Summary ===');
+  log('rollback', `  Tracks found: ${stats.tracks}`);
+  log('rollback', `  ${isDryRun ? 'Would delete' : 'Deleted'}: ${stats.deleted} tracks, ${stats.objects} Storage objects`);
+  log('rollback', `  Failed: ${stats.failed}`);
+  log('rollback', `  Completed in ${elapsed}s`);
+
+  if (stats.failedIds.length > 0) {
+    log('rollback', `  Failed IDs: ${stats.failedIds.join(', ')}`);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
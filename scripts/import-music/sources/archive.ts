@@ -0,0 +1,320 @@
+import { createHash } from 'crypto';
+import { TrackRecord, SourceResult, SourceError, ImportSource } from '../types';
+import { sanitizeTrack, sleep, log, isRockGenre, isSfxTrack } from '../utils';
+import { httpGetJson, toSourceError } from '../http';
+import * as admin from 'firebase-admin';
+
+const SOURCE = 'archive';
+const ID_PREFIX = 'archive-';
+const SCRAPE_URL = 'https://archive.org/services/search/v1/scrape';
+const METADATA_URL = 'https://archive.org/metadata/';
+const DOWNLOAD_URL = 'https://archive.org/download/';
+const IMAGE_URL = 'https://archive.org/services/img/';
+const PAGE_SIZE = 100;
+const PAGES_PER_RUN = 2; // 200 items (albums) per run
+const STATE_DOC = 'import-state/archive';
+
+// Rock-related subjects used to narrow the netlabels search
+const SUBJECTS = [
+  'rock', 'metal', 'punk', 'hardcore', 'grunge', 'alternative',
+  'indie', 'post-punk', 'post-rock', 'stoner', 'shoegaze', 'noise rock',
+];
+
+const QUERY =
+  'collection:netlabels AND mediatype:audio' +
+  ' AND (licenseurl:*creativecommons.org* OR licenseurl:*publicdomain*)' +
+  ` AND subject:(${SUBJECTS.map(s => `"${s}"`).join(' OR ')})`;
+
+interface ArchiveScrapeItem {
+  identifier: string;
+}
+
+interface ArchiveScrapeResponse {
+  items: ArchiveScrapeItem[];
+  count: number;
+  total?: number;
+  cursor?: string;
+}
+
+interface ArchiveFile {
+  name: string;
+  source?: 'original' | 'derivative' | 'metadata';
+  original?: string; // for derivatives: the file they were made from
+  format?: string;
+  title?: string;
+  creator?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  length?: string;
+}
+
+interface ArchiveMetadataResponse {
+  metadata?: {
+    identifier: string;
+    title?: string | string[];
+    creator?: string | string[];
+    subject?: string | string[];
+    licenseurl?: string;
+  };
+  files?: ArchiveFile[];
+}
+
+interface ArchiveState {
+  cursor: string;
+  itemsScanned: number;
+  lastRun: string;
+  /** Items whose metadata fetch failed with a retryable error, fetched again next run. */
+  retry?: string[];
+}
+
+/** The part of Firestore the source keeps its state in. */
+interface StateStore {
+  doc(path: string): {
+    get(): Promise<{ exists: boolean; data(): admin.firestore.DocumentData | undefined }>;
+    set(data: ArchiveState): Promise<unknown>;
+  };
+}
+
+function first(value: string | string[] | undefined): string {
+  if (Array.isArray(value)) return value[0] || '';
+  return value || '';
+}
+
+function subjects(value: string | string[] | undefined): string[] {
+  const list = Array.isArray(value) ? value : (value || '').split(';');
+  return list.map(s => s.trim()).filter(Boolean);
+}
+
+/** Parses Archive `length` values, which come as "245.3" or "4:05". */
+export function parseArchiveLength(length: string | undefined): number {
+  if (!length) return 0;
+  if (length.includes(':')) {
+    return Math.round(
+      length.split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0)
+    );
+  }
+  return Math.round(parseFloat(length) || 0);
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+function isMp3(file: ArchiveFile): boolean {
+  return /mp3$/i.test(file.format || '') && /\.mp3$/i.test(file.name);
+}
+
+// Lower is better: the uploaded file, then VBR, then the highest fixed bitrate
+function mp3Rank(file: ArchiveFile): number {
+  if (file.source !== 'derivative') return 0;
+  if (/^vbr/i.test(file.format || '')) return 1;
+  const kbps = parseInt((file.format || '').match(/(\d+)\s*kbps/i)?.[1] || '0', 10);
+  return 2 + 1 / (1 + kbps);
+}
+
+/**
+ * One MP3 per song. Archive derives "VBR MP3" and "64Kbps MP3" copies of
+ * each upload (MP3 or lossless); files are grouped by the original they
+ * come from and the best of each group is kept.
+ */
+export function pickArchiveMp3s(files: ArchiveFile[]): ArchiveFile[] {
+  const best = new Map<string, ArchiveFile>();
+  for (const file of files) {
+    if (!isMp3(file)) continue;
+    const key = file.source === 'derivative' && file.original ? file.original : file.name;
+    const current = best.get(key);
+    if (!current || mp3Rank(file) < mp3Rank(current)) best.set(key, file);
+  }
+  return [...best.values()];
+}
+
+/**
+ * Maps one Archive item (usually an album) to tracks, one MP3 per song;
+ * files without a rock genre are dropped and SFX are counted.
+ */
+export function mapArchiveItem(
+  data: ArchiveMetadataResponse
+): { tracks: TrackRecord[]; sfxSkipped: number } {
+  const meta = data.metadata;
+  const tracks: TrackRecord[] = [];
+  let sfxSkipped = 0;
+  if (!meta || !data.files) return { tracks, sfxSkipped };
+
+  const license = meta.licenseurl || '';
+  if (!/creativecommons\.org|publicdomain/i.test(license)) {
+    return { tracks, sfxSkipped };
+  }
+
+  const identifier = meta.identifier;
+  const itemTitle = first(meta.title);
+  const itemCreator = first(meta.creator);
+  const itemGenre = subjects(meta.subject).find(isRockGenre) || '';
+
+  const byName = new Map(data.files.map(f => [f.name, f]));
+
+  for (const mp3 of pickArchiveMp3s(data.files)) {
+    // A derivative may lack the tags of the file it was made from
+    const original = mp3.original ? byName.get(mp3.original) : undefined;
+    const file = original ? { ...original, ...mp3 } : mp3;
+    const genre = file.genre && isRockGenre(file.genre) ? file.genre : itemGenre;
+    if (!genre) continue;
+
+    const title = file.title || file.name.replace(/\.mp3$/i, '').replace(/^.*\//, '');
+    const artist = file.artist || file.creator || itemCreator;
+    const album = file.album || itemTitle;
+    const duration = parseArchiveLength(file.length);
+
+    if (isSfxTrack({ title, artist, album, genre, duration })) {
+      sfxSkipped++;
+      continue;
+    }
+
+    const fileHash = createHash('sha1').update(file.name).digest('hex').slice(0, 10);
+    const encodedName = file.name.split('/').map(encodeURIComponent).join('/');
+
+    tracks.push(
+      sanitizeTrack({
+        id: `${ID_PREFIX}${identifier}-${fileHash}`,
+        title,
+        artist,
+        artistId: artist ? `archive-artist-${slugify(artist)}` : '',
+        album: album || 'Singles',
+        albumId: `archive-album-${identifier}`,
+        duration,
+        artwork: `${IMAGE_URL}${identifier}`,
+        audioUrl: `${DOWNLOAD_URL}${identifier}/${encodedName}`,
+        genre,
+        license,
+      })
+    );
+  }
+
+  return { tracks, sfxSkipped };
+}
+
+export async function fetchArchive(db?: StateStore): Promise<SourceResult> {
+  const tracks: TrackRecord[] = [];
+  const errors: SourceError[] = [];
+  const seen = new Set<string>();
+
+  // Load state from Firestore
+  let state: ArchiveState = {
+    cursor: '',
+    itemsScanned: 0,
+    lastRun: '',
+  };
+
+  if (db) {
+    try {
+      const stateDoc = await db.doc(STATE_DOC).get();
+      if (stateDoc.exists) {
+        state = stateDoc.data() as ArchiveState;
+      }
+    } catch (e) {
+      log(SOURCE, `Could not load state: ${(e as Error).message}`);
+    }
+  }
+
+  let cursor = state.cursor;
+  let itemsScanned = 0;
+  let requestCount = 0;
+  let sfxSkipped = 0;
+  // The cursor moves past whole pages, so items that fail for now are kept by identifier
+  const retry = new Set<string>();
+
+  async function scanItem(identifier: string): Promise<void> {
+    try {
+      const metadata = await httpGetJson<ArchiveMetadataResponse>(
+        `${METADATA_URL}${encodeURIComponent(identifier)}`
+      );
+      requestCount++;
+
+      const mapped = mapArchiveItem(metadata);
+      sfxSkipped += mapped.sfxSkipped;
+
+      for (const track of mapped.tracks) {
+        if (seen.has(track.id)) continue;
+        seen.add(track.id);
+        tracks.push(track);
+      }
+
+      await sleep(250);
+    } catch (err) {
+      const error = toSourceError(`item ${identifier}`, err);
+      errors.push(error);
+      if (error.kind === 'retryable') retry.add(identifier);
+    }
+  }
+
+  if (state.retry?.length) {
+    log(SOURCE, `[retry] ${state.retry.length} items that failed last run...`);
+    for (const identifier of state.retry) await scanItem(identifier);
+  }
+
+  for (let page = 0; page < PAGES_PER_RUN; page++) {
+    let data: ArchiveScrapeResponse;
+    try {
+      const url =
+        `${SCRAPE_URL}?q=${encodeURIComponent(QUERY)}` +
+        `&fields=identifier&sorts=addeddate%20asc&count=${PAGE_SIZE}` +
+        (cursor ? `&cursor=${encodeURIComponent(cursor)}` : '');
+
+      log(SOURCE, `[search] page ${page + 1}${cursor ? ` (cursor ${cursor.slice(0, 12)}…)` : ''}...`);
+      data = await httpGetJson<ArchiveScrapeResponse>(url);
+      requestCount++;
+    } catch (err) {
+      errors.push(toSourceError(`search page ${page + 1}`, err));
+      break;
+    }
+
+    for (const item of data.items) {
+      itemsScanned++;
+      await scanItem(item.identifier);
+    }
+
+    // No cursor means the end of the result set: start over next run
+    cursor = data.cursor || '';
+    if (!cursor) break;
+  }
+
+  // Save updated state
+  const newState: ArchiveState = {
+    cursor,
+    itemsScanned: cursor ? state.itemsScanned + itemsScanned : 0,
+    lastRun: new Date().toISOString(),
+    retry: [...retry],
+  };
+  let savedState: ArchiveState | null = null;
+  if (db) {
+    try {
+      await db.doc(STATE_DOC).set(newState);
+      savedState = newState;
+      log(SOURCE, `State saved: itemsScanned=${newState.itemsScanned}, cursor=${newState.cursor ? 'set' : 'reset'}, retry=${retry.size}`);
+    } catch (e) {
+      log(SOURCE, `Could not save state: ${(e as Error).message}`);
+    }
+  }
+
+  log(SOURCE, `Fetched ${tracks.length} unique tracks from ${itemsScanned} items (${requestCount} API calls, ${sfxSkipped} SFX skipped, ${errors.length} errors)`);
+  return {
+    sourceName: SOURCE,
+    tracks,
+    errors,
+    sfxSkipped,
+    state: { before: state, after: savedState },
+  };
+}
+
+export const archiveSource: ImportSource = {
+  name: SOURCE,
+  idPrefix: ID_PREFIX,
+  requiredEnv: [],
+  fetch: fetchArchive,
+};
@@ -0,0 +1,69 @@
+import { ImportSource } from '../types';
+import { jamendoSource } from './jamendo';
+import { archiveSource } from './archive';
+import { localSource } from './local';
+
+/** Every source the importer knows about, in the order they are run. */
+export const SOURCES: ImportSource[] = [
+  jamendoSource,
+  archiveSource,
+  localSource,
+];
+
+export interface SourceSelection {
+  enabled: ImportSource[];
+  disabled: { source: ImportSource; reason: string }[];
+}
+
+function readListFlag(argv: string[], flag: string): string[] | null {
+  const arg = argv.find(a => a.startsWith(`--${flag}=`));
+  if (!arg) return null;
+  return arg
+    .slice(flag.length + 3)
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Decide which sources run from CLI flags and the environment:
+ *   --only=jamendo,archive  run just these sources
+ *   --skip=jamendo          run every source except these
+ * Sources whose required env vars are missing are disabled.
+ */
+export function selectSources(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): SourceSelection {
+  const only = readListFlag(argv, 'only');
+  const skip = readListFlag(argv, 'skip') || [];
+
+  const known = new Set(SOURCES.map(s => s.name));
+  for (const name of [...(only || []), ...skip]) {
+    if (!known.has(name)) {
+      throw new Error(
+        `Unknown source "${name}". Available: ${[...known].join(', ')}`
+      );
+    }
+  }
+
+  const selection: SourceSelection = { enabled: [], disabled: [] };
+  for (const source of SOURCES) {
+    if (only && !only.includes(source.name)) {
+      selection.disabled.push({ source, reason: 'not in --only' });
+      continue;
+    }
+    if (skip.includes(source.name)) {
+      selection.disabled.push({ source, reason: 'disabled by --skip' });
+      continue;
+    }
+    const missing = source.requiredEnv.filter(key => !env[key]);
+    if (missing.length > 0) {
+      selection.disabled.push({ source, reason: `${missing.join(', ')} not set` });
+      continue;
+    }
+    selection.enabled.push(source);
+  }
+
+  return selection;
+}
@@ -1,12 +1,15 @@
-import { TrackRecord, SourceResult } from '../types';
+import { TrackRecord, SourceResult, SourceError, ImportSource } from '../types';
 import { sanitizeTrack, sleep, log, isRockGenre, isSfxTrack } from '../utils';
+import { httpGetJson, setHostBudget, toSourceError } from '../http';
 import * as admin from 'firebase-admin';
 
 const SOURCE = 'jamendo';
+const ID_PREFIX = 'jamendo-';
 const BASE_URL = 'https://api.jamendo.com/v3.0/tracks/';
 const PAGE_SIZE = 200;
 const PAGES_PER_GENRE = 5; // 1.000 tracks per genre
 const STATE_DOC = 'import-state/jamendo';
+const API_BUDGET = 150; // ~30 pages per run, leaving room for retries
 
 // Rock-related genres only
 const GENRES = [
@@ -67,13 +70,15 @@ export async function fetchJamendo(
     return {
       sourceName: SOURCE,
       tracks: [],
-      errors: ['JAMENDO_CLIENT_ID not set'],
+      errors: [{ kind: 'fatal', message: 'JAMENDO_CLIENT_ID not set' }],
+      sfxSkipped: 0,
     };
   }
 
   const tracks: TrackRecord[] = [];
-  const errors: string[] = [];
+  const errors: SourceError[] = [];
   const seen = new Set<string>();
+  setHostBudget(new URL(BASE_URL).host, API_BUDGET);
 
   // Load state from Firestore
   let state: JamendoState = {
@@ -113,23 +118,20 @@ export async function fetchJamendo(
           `&tags=${genre}&include=musicinfo&audioformat=mp32`;
 
         log(SOURCE, `[${genre}] page ${page + 1} (${sortOrder})...`);
-        const response = await fetch(url);
+        const data = await httpGetJson<JamendoResponse>(url);
         requestCount++;
 
-        if (!response.ok) {
-          errors.push(`HTTP ${response.status} on ${genre} page ${page + 1}`);
-          break;
-        }
-
-        const data: JamendoResponse = await response.json();
         if (data.headers.code !== 0) {
-          errors.push(`API error ${data.headers.code} on ${genre} page ${page + 1}`);
+          errors.push({
+            kind: 'fatal',
+            message: `API error ${data.headers.code} on ${genre} page ${page + 1}`,
+          });
           break;
         }
 
         for (const t of data.results) {
           if (!t.audio && !t.audiodownload) continue;
-          const id = `jamendo-${t.id}`;
+          const id = `${ID_PREFIX}${t.id}`;
           if (seen.has(id)) continue;
           seen.add(id);
 
@@ -166,7 +168,9 @@ export async function fetchJamendo(
         if (data.results.length < PAGE_SIZE) break;
         await sleep(500);
       } catch (err) {
-        errors.push(`${genre} page ${page + 1}: ${(err as Error).message}`);
+        // Retries are exhausted at this point: move on to the next genre
+        errors.push(toSourceError(`${genre} page ${page + 1}`, err));
+        break;
       }
     }
   }
@@ -181,18 +185,19 @@ export async function fetchJamendo(
         `&offset=${offset}&order=id&include=musicinfo&audioformat=mp32`;
 
       log(SOURCE, `[global] offset ${offset}...`);
-      const response = await fetch(url);
+      const data = await httpGetJson<JamendoResponse>(url);
       requestCount++;
 
-      if (!response.ok) break;
-      const data: JamendoResponse = await response.json();
-      if (data.headers.code !== 0) break;
+      if (data.headers.code !== 0) {
+        errors.push({ kind: 'fatal', message: `API error ${data.headers.code} on global offset ${offset}` });
+        break;
+      }
 
       for (const t of data.results) {
         if (!t.audio && !t.audiodownload) continue;
         const trackGenre = t.musicinfo?.tags?.genres?.[0] || '';
         if (!isRockGenre(trackGenre)) continue;
-        const id = `jamendo-${t.id}`;
+        const id = `${ID_PREFIX}${t.id}`;
         if (seen.has(id)) continue;
         seen.add(id);
 
@@ -228,20 +233,23 @@ export async function fetchJamendo(
       if (data.results.length < PAGE_SIZE) break;
       await sleep(500);
     } catch (err) {
-      errors.push(`global offset error: ${(err as Error).message}`);
+      errors.push(toSourceError('global offset', err));
+      break;
     }
   }
 
   // Save updated state
+  const newState: JamendoState = {
+    genreIndex: (state.genreIndex + genresToFetch) % GENRES.length,
+    sortIndex: (state.sortIndex + 1) % SORT_ORDERS.length,
+    globalOffset: state.globalOffset + globalPages * PAGE_SIZE,
+    lastRun: new Date().toISOString(),
+  };
+  let savedState: JamendoState | null = null;
   if (db) {
     try {
-      const newState: JamendoState = {
-        genreIndex: (state.genreIndex + genresToFetch) % GENRES.length,
-        sortIndex: (state.sortIndex + 1) % SORT_ORDERS.length,
-        globalOffset: state.globalOffset + globalPages * PAGE_SIZE,
-        lastRun: new Date().toISOString(),
-      };
       await db.doc(STATE_DOC).set(newState);
+      savedState = newState;
       log(SOURCE, `State saved: genreIdx=${newState.genreIndex}, globalOffset=${newState.globalOffset}`);
     } catch (e) {
       log(SOURCE, `Could not save state: ${(e as Error).message}`);
@@ -249,5 +257,18 @@ export async function fetchJamendo(
   }
 
   log(SOURCE, `Fetched ${tracks.length} unique tracks (${requestCount} API calls, ${sfxSkipped} SFX skipped, ${errors.length} errors)`);
-  return { sourceName: SOURCE, tracks, errors };
+  return {
+    sourceName: SOURCE,
+    tracks,
+    errors,
+    sfxSkipped,
+    state: { before: state, after: savedState },
+  };
 }
+
+export const jamendoSource: ImportSource = {
+  name: SOURCE,
+  idPrefix: ID_PREFIX,
+  requiredEnv: ['JAMENDO_CLIENT_ID'],
+  fetch: fetchJamendo,
+};
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TrackRecord, SourceResult, SourceError, ImportSource } from '../types';
+import { readTags } from '../tags';
+import { sanitizeTrack, log, isSfxTrack } from '../utils';
+
+const SOURCE = 'local';
+const ID_PREFIX = 'local-';
+const AUDIO_EXTENSIONS = new Set(['.mp3', '.flac', '.ogg', '.oga', '.opus']);
+const COVER_NAMES = ['cover', 'folder', 'front', 'album'];
+const COVER_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+const COVER_CACHE_DIR = path.join(os.tmpdir(), 'spotfly-local-covers');
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(full)));
+    } else if (AUDIO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(full);
+    }
+  }
+  return files.sort();
+}
+
+/** Finds a cover.jpg / folder.png style image next to the audio file. */
+async function findFolderCover(dir: string, cache: Map<string, string>): Promise<string> {
+  const cached = cache.get(dir);
+  if (cached !== undefined) return cached;
+
+  let cover = '';
+  const names = await fs.readdir(dir);
+  for (const name of names) {
+    const ext = path.extname(name).toLowerCase();
+    const base = path.basename(name, path.extname(name)).toLowerCase();
+    if (COVER_EXTENSIONS.includes(ext) && COVER_NAMES.includes(base)) {
+      cover = pathToFileURL(path.join(dir, name)).href;
+      break;
+    }
+  }
+
+  cache.set(dir, cover);
+  return cover;
+}
+
+function pictureExtension(mimeType: string): string {
+  return mimeType === 'image/png' ? '.png' : '.jpg';
+}
+
+function resolveLicense(license?: string, copyright?: string): string {
+  if (license) return license;
+  const url = copyright?.match(/https?:\/\/\S*creativecommons\.org\S*/i);
+  if (url) return url[0];
+  return process.env.LOCAL_IMPORT_LICENSE || '';
+}
+
+/**
+ * Imports audio files from `LOCAL_IMPORT_DIR`. Tracks keep `file://` URLs
+ * for audio and artwork; `uploadTrackMedia` reads them from disk.
+ */
+export async function fetchLocal(): Promise<SourceResult> {
+  const root = process.env.LOCAL_IMPORT_DIR;
+  if (!root) {
+    return {
+      sourceName: SOURCE,
+      tracks: [],
+      errors: [{ kind: 'fatal', message: 'LOCAL_IMPORT_DIR not set' }],
+      sfxSkipped: 0,
+    };
+  }
+
+  const tracks: TrackRecord[] = [];
+  const errors: SourceError[] = [];
+  const coverCache = new Map<string, string>();
+  let sfxSkipped = 0;
+
+  let files: string[];
+  try {
+    files = await walk(path.resolve(root));
+  } catch (err) {
+    return {
+      sourceName: SOURCE,
+      tracks: [],
+      errors: [{ kind: 'fatal', message: `Could not read ${root}: ${(err as Error).message}` }],
+      sfxSkipped: 0,
+    };
+  }
+
+  log(SOURCE, `Found ${files.length} audio files in ${root}`);
+  await fs.mkdir(COVER_CACHE_DIR, { recursive: true });
+
+  for (const file of files) {
+    const relative = path.relative(root, file);
+    try {
+      const buffer = await fs.readFile(file);
+      const tags = readTags(buffer);
+
+      const title = tags.title || path.basename(file, path.extname(file));
+      const album = tags.album || path.basename(path.dirname(file));
+      const duration = tags.durationMs ? Math.round(tags.durationMs / 1000) : 0;
+
+      if (isSfxTrack({ title, artist: tags.artist, album, genre: tags.genre, duration })) {
+        sfxSkipped++;
+        continue;
+      }
+
+      const license = resolveLicense(tags.license, tags.copyright);
+      if (!license) {
+        errors.push({
+          kind: 'fatal',
+          message: `${relative}: no license tag (set LOCAL_IMPORT_LICENSE for a default)`,
+        });
+        continue;
+      }
+
+      const id = `${ID_PREFIX}${createHash('sha1').update(relative).digest('hex').slice(0, 20)}`;
+
+      let artwork = '';
+      if (tags.picture) {
+        const coverPath = path.join(COVER_CACHE_DIR, `${id}${pictureExtension(tags.picture.mimeType)}`);
+        await fs.writeFile(coverPath, tags.picture.data);
+        artwork = pathToFileURL(coverPath).href;
+      } else {
+        artwork = await findFolderCover(path.dirname(file), coverCache);
+      }
+
+      tracks.push(
+        sanitizeTrack({
+          id,
+          title,
+          artist: tags.artist,
+          artistId: tags.artist ? `local-artist-${createHash('sha1').update(tags.artist).digest('hex').slice(0, 12)}` : '',
+          album,
+          albumId: `local-album-${createHash('sha1').update(`${tags.artist || ''}/${album}`).digest('hex').slice(0, 12)}`,
+          duration,
+          artwork: artwork || `https://picsum.photos/seed/${id}/300/300`,
+          audioUrl: pathToFileURL(file).href,
+          genre: tags.genre,
+          license,
+          trackNumber: tags.trackNumber,
+          year: tags.year,
+        })
+      );
+    } catch (err) {
+      errors.push({ kind: 'fatal', message: `${relative}: ${(err as Error).message}` });
+    }
+  }
+
+  log(SOURCE, `Read ${tracks.length} tracks (${sfxSkipped} SFX skipped, ${errors.length} errors)`);
+  return { sourceName: SOURCE, tracks, errors, sfxSkipped };
+}
+
+export const localSource: ImportSource = {
+  name: SOURCE,
+  idPrefix: ID_PREFIX,
+  requiredEnv: ['LOCAL_IMPORT_DIR'],
+  fetch: fetchLocal,
+};
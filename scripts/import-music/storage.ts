@@ -1,37 +1,84 @@
 import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
 import { Bucket } from '@google-cloud/storage';
 import { STORAGE_BUCKET } from './firebaseAdmin';
+import { httpGetBuffer, HttpError } from './http';
+import { Loudness, measureLoudness } from './loudness';
+import { AudioProbe, ProbeError, probeAudio, probeProblem } from './probe';
+import { ARTWORK_SIZES, resizeArtwork } from './thumbnails';
+import { ArtworkVariants } from './types';
+import { computeWaveform } from './waveform';
 import { log } from './utils';
 
-/** Download a remote URL into a Buffer. Returns null on failure. */
+/**
+ * Download a remote URL into a Buffer, retrying transient failures.
+ * Returns null once retries are exhausted or on a fatal error.
+ */
 export async function downloadToBuffer(
   url: string,
   timeoutMs = 30000
 ): Promise<{ buffer: Buffer; contentType: string } | null> {
   try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    return await httpGetBuffer(url, { timeoutMs });
+  } catch (err) {
+    const kind = err instanceof HttpError && err.retryable ? 'retryable' : 'fatal';
+    log('storage', `Download failed (${kind}) for ${url}: ${(err as Error).message}`);
+    return null;
+  }
+}
 
-    const response = await fetch(url, { signal: controller.signal });
-    clearTimeout(timeout);
+// Content types for media read from disk, keyed by file extension
+const LOCAL_CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+};
 
-    if (!response.ok) {
-      log('storage', `HTTP ${response.status} downloading ${url}`);
-      return null;
-    }
+/** Storage extension + content type for a media URL (remote URLs use the fallback). */
+function mediaFormat(
+  url: string,
+  fallback: { extension: string; contentType: string }
+): { extension: string; contentType: string } {
+  if (!url.startsWith('file://')) return fallback;
+  const ext = path.extname(fileURLToPath(url)).toLowerCase();
+  const contentType = LOCAL_CONTENT_TYPES[ext];
+  if (!contentType) return fallback;
+  return { extension: ext === '.jpeg' ? '.jpg' : ext, contentType };
+}
 
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+/** Read a `file://` URL from disk into a Buffer. Returns null on failure. */
+export async function readLocalFile(
+  url: string
+): Promise<{ buffer: Buffer; contentType: string } | null> {
+  try {
+    const filePath = fileURLToPath(url);
+    const buffer = await fs.readFile(filePath);
     const contentType =
-      response.headers.get('content-type') || 'application/octet-stream';
-
+      LOCAL_CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
     return { buffer, contentType };
   } catch (err) {
-    log('storage', `Download failed for ${url}: ${(err as Error).message}`);
+    log('storage', `Read failed for ${url}: ${(err as Error).message}`);
     return null;
   }
 }
 
+/** Download a remote URL, or read a `file://` URL from disk. Returns null on failure. */
+async function fetchMedia(
+  url: string,
+  timeoutMs: number
+): Promise<{ buffer: Buffer; contentType: string } | null> {
+  return url.startsWith('file://')
+    ? readLocalFile(url)
+    : downloadToBuffer(url, timeoutMs);
+}
+
 /** Upload a Buffer to Firebase Storage. Returns the public download URL. */
 export async function uploadToStorage(
   bucket: Bucket,
@@ -56,8 +103,8 @@ export async function uploadToStorage(
 }
 
 /**
- * Download from a remote URL and upload to Firebase Storage.
- * Returns the Firebase Storage download URL, or null on failure.
+ * Download from a remote URL (or read a `file://` URL from disk) and upload
+ * to Firebase Storage. Returns the Firebase Storage download URL, or null on failure.
  */
 export async function transferToStorage(
   bucket: Bucket,
@@ -66,7 +113,7 @@ export async function transferToStorage(
   contentType: string,
   timeoutMs = 30000
 ): Promise<string | null> {
-  const downloaded = await downloadToBuffer(sourceUrl, timeoutMs);
+  const downloaded = await fetchMedia(sourceUrl, timeoutMs);
   if (!downloaded) return null;
 
   try {
@@ -78,57 +125,175 @@ export async function transferToStorage(
 }
 
 /**
- * Download audio + artwork for a track and upload both to Firebase Storage.
- * Returns updated URLs and backup of originals, or null if audio fails.
+ * Upload resized copies of the artwork as `spotfly-artwork/<id>_<size>.jpg`.
+ * Sizes that fail to resize or upload are left out.
  */
-export async function uploadTrackMedia(
+export async function uploadArtworkVariants(
   bucket: Bucket,
   trackId: string,
-  audioUrl: string,
-  artworkUrl: string
-): Promise<{
+  buffer: Buffer
+): Promise<ArtworkVariants> {
+  const variants: ArtworkVariants = {};
+  for (const size of ARTWORK_SIZES) {
+    const resized = await resizeArtwork(buffer, size);
+    if (!resized) continue;
+    try {
+      variants[size] = await uploadToStorage(
+        bucket,
+        resized,
+        `spotfly-artwork/${trackId}_${size}.jpg`,
+        'image/jpeg'
+      );
+    } catch (err) {
+      log('storage', `Upload failed for ${trackId}_${size}.jpg: ${(err as Error).message}`);
+    }
+  }
+  return variants;
+}
+
+/**
+ * Store audio that failed the probe under `spotfly-quarantine/` for manual
+ * review. No download token is set, so the app can't play it.
+ */
+export async function quarantineMedia(
+  bucket: Bucket,
+  buffer: Buffer,
+  storagePath: string,
+  contentType: string,
+  reason: string
+): Promise<boolean> {
+  try {
+    await bucket.file(storagePath).save(buffer, {
+      metadata: { contentType, metadata: { reason } },
+    });
+    return true;
+  } catch (err) {
+    log('storage', `Quarantine failed for ${storagePath}: ${(err as Error).message}`);
+    return false;
+  }
+}
+
+export interface UploadedMedia {
   audioUrl: string;
   artwork: string;
   originalAudioUrl: string;
   originalArtwork: string;
-} | null> {
-  const audioPath = `spotfly-audio/${trackId}.mp3`;
-  const artworkPath = `spotfly-artwork/${trackId}.jpg`;
-
-  // Download + upload audio (required)
-  const newAudioUrl = await transferToStorage(
-    bucket,
-    audioUrl,
-    audioPath,
-    'audio/mpeg',
-    60000
-  );
-  if (!newAudioUrl) {
-    log('storage', `SKIP ${trackId}: audio download/upload failed`);
-    return null;
+  artworkVariants: ArtworkVariants;
+  probe: AudioProbe;
+  waveform: number[] | null;
+  loudness: Loudness | null;
+}
+
+/**
+ * `rejected` means the audio itself is bad (not audio, truncated, silent) and
+ * the track should not be published from its source URL either.
+ */
+export type UploadResult =
+  | ({ ok: true } & UploadedMedia)
+  | { ok: false; reason: string; rejected: boolean };
+
+/**
+ * Download audio + artwork for a track, probe the audio and upload both to
+ * Firebase Storage. Returns updated URLs, backup of originals and the probe.
+ */
+export async function uploadTrackMedia(
+  bucket: Bucket,
+  trackId: string,
+  audioUrl: string,
+  artworkUrl: string
+): Promise<UploadResult> {
+  const artworkFormat = mediaFormat(artworkUrl, { extension: '.jpg', contentType: 'image/jpeg' });
+  const artworkPath = `spotfly-artwork/${trackId}${artworkFormat.extension}`;
+
+  // Download + probe audio (required)
+  const downloaded = await fetchMedia(audioUrl, 60000);
+  if (!downloaded) {
+    log('storage', `SKIP ${trackId}: audio download failed`);
+    return { ok: false, reason: 'audio download failed', rejected: false };
   }
 
-  // Download + upload artwork (optional — keep original on failure)
-  let newArtworkUrl = artworkUrl;
-  if (artworkUrl) {
-    const artResult = await transferToStorage(
+  let probe: AudioProbe;
+  try {
+    probe = probeAudio(downloaded.buffer);
+  } catch (err) {
+    if (!(err instanceof ProbeError)) throw err;
+    log('storage', `REJECT ${trackId}: ${err.message} (${downloaded.contentType})`);
+    return { ok: false, reason: `not audio: ${err.message}`, rejected: true };
+  }
+
+  const problem = probeProblem(probe);
+  if (problem) {
+    const quarantinePath = `spotfly-quarantine/${trackId}${probe.extension}`;
+    const quarantined = await quarantineMedia(
       bucket,
-      artworkUrl,
-      artworkPath,
-      'image/jpeg',
-      15000
+      downloaded.buffer,
+      quarantinePath,
+      probe.contentType,
+      problem
     );
-    if (artResult) {
-      newArtworkUrl = artResult;
-    } else {
-      log('storage', `WARN ${trackId}: artwork failed, keeping original`);
+    log('storage', `REJECT ${trackId}: ${problem}${quarantined ? `, quarantined at ${quarantinePath}` : ''}`);
+    return { ok: false, reason: problem, rejected: true };
+  }
+
+  // Upload audio under the extension of what was actually received
+  const audioPath = `spotfly-audio/${trackId}${probe.extension}`;
+  let newAudioUrl: string;
+  try {
+    newAudioUrl = await uploadToStorage(bucket, downloaded.buffer, audioPath, probe.contentType);
+  } catch (err) {
+    log('storage', `SKIP ${trackId}: upload failed for ${audioPath}: ${(err as Error).message}`);
+    return { ok: false, reason: 'audio upload failed', rejected: false };
+  }
+
+  // Download + upload artwork and its variants (optional — keep original on failure)
+  let newArtworkUrl = artworkUrl;
+  let artworkVariants: ArtworkVariants = {};
+  const artwork = artworkUrl ? await fetchMedia(artworkUrl, 15000) : null;
+  if (artwork) {
+    try {
+      newArtworkUrl = await uploadToStorage(bucket, artwork.buffer, artworkPath, artworkFormat.contentType);
+      artworkVariants = await uploadArtworkVariants(bucket, trackId, artwork.buffer);
+    } catch (err) {
+      log('storage', `Upload failed for ${artworkPath}: ${(err as Error).message}`);
     }
   }
+  if (artworkUrl && newArtworkUrl === artworkUrl) {
+    log('storage', `WARN ${trackId}: artwork failed, keeping original`);
+  }
 
   return {
+    ok: true,
     audioUrl: newAudioUrl,
     artwork: newArtworkUrl,
     originalAudioUrl: audioUrl,
     originalArtwork: artworkUrl,
+    artworkVariants,
+    probe,
+    waveform: await computeWaveform(downloaded.buffer),
+    loudness: await measureLoudness(downloaded.buffer),
   };
 }
+
+/**
+ * Delete every `spotfly-audio/` and `spotfly-artwork/` object stored for a
+ * track, whatever its extension, artwork variants included. Returns the deleted paths.
+ */
+export async function deleteTrackMedia(
+  bucket: Bucket,
+  trackId: string,
+  dryRun = false
+): Promise<string[]> {
+  const deleted: string[] = [];
+  for (const folder of ['spotfly-audio', 'spotfly-artwork']) {
+    // The separator check keeps `jamendo-12` from matching `jamendo-123.mp3`;
+    // `_` covers artwork variants (`<id>_64.jpg`)
+    const [files] = await bucket.getFiles({ prefix: `${folder}/${trackId}` });
+    for (const file of files) {
+      const rest = file.name.slice(folder.length + 1 + trackId.length);
+      if (!rest.startsWith('.') && !rest.startsWith('_')) continue;
+      if (!dryRun) await file.delete({ ignoreNotFound: true });
+      deleted.push(file.name);
+    }
+  }
+  return deleted;
+}
@@ -0,0 +1,404 @@
+// ── Embedded tag reading (ID3v1/ID3v2, FLAC and Ogg Vorbis comments) ────────
+// A small, dependency-free reader covering the frames the importer needs.
+
+export interface EmbeddedPicture {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  trackNumber?: number;
+  year?: number;
+  genre?: string;
+  /** License URL or text (WCOP / LICENSE). */
+  license?: string;
+  /** Copyright notice (TCOP / COPYRIGHT). */
+  copyright?: string;
+  /** Duration in ms when the tag declares one (ID3 TLEN). */
+  durationMs?: number;
+  picture?: EmbeddedPicture;
+}
+
+// ID3v1 genre table (incl. Winamp extensions up to 147)
+const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge',
+  'Hip-Hop', 'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B',
+  'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial', 'Alternative', 'Ska',
+  'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient',
+  'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance', 'Classical',
+  'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative',
+  'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic', 'Darkwave',
+  'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream',
+  'Southern Rock', 'Comedy', 'Cult', 'Gangsta', 'Top 40', 'Christian Rap',
+  'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave',
+  'Psychedelic', 'Rave', 'Showtunes', 'Trailer', 'Lo-Fi', 'Tribal',
+  'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll',
+  'Hard Rock', 'Folk', 'Folk-Rock', 'National Folk', 'Swing',
+  'Fast Fusion', 'Bebop', 'Latin', 'Revival', 'Celtic', 'Bluegrass',
+  'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock',
+  'Symphonic Rock', 'Slow Rock', 'Big Band', 'Chorus', 'Easy Listening',
+  'Acoustic', 'Humour', 'Speech', 'Chanson', 'Opera', 'Chamber Music',
+  'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove', 'Satire',
+  'Slow Jam', 'Club', 'Tango', 'Samba', 'Folklore', 'Ballad',
+  'Power Ballad', 'Rhythmic Soul', 'Freestyle', 'Duet', 'Punk Rock',
+  'Drum Solo', 'A Cappella', 'Euro-House', 'Dance Hall', 'Goa',
+  'Drum & Bass', 'Club-House', 'Hardcore', 'Terror', 'Indie', 'BritPop',
+  'Afro-Punk', 'Polsk Punk', 'Beat', 'Christian Gangsta Rap', 'Heavy Metal',
+  'Black Metal', 'Crossover', 'Contemporary Christian', 'Christian Rock',
+  'Merengue', 'Salsa', 'Thrash Metal', 'Anime', 'JPop', 'Synthpop',
+];
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const n = parseInt(value, 10); // "3/12" → 3, "2019-05-01" → 2019
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/** Resolves ID3 genre references like "(17)", "17" or "(17)Rock". */
+function resolveGenre(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const match = value.match(/^\((\d+)\)(.*)$/);
+  if (match) return match[2].trim() || ID3V1_GENRES[parseInt(match[1], 10)];
+  if (/^\d+$/.test(value)) return ID3V1_GENRES[parseInt(value, 10)];
+  return value;
+}
+
+function trimNulls(value: string): string {
+  return value.replace(/\0+$/, '').trim();
+}
+
+// ── ID3v2 ───────────────────────────────────────────────────────────────────
+
+function synchsafe(buf: Buffer, offset: number): number {
+  return (
+    ((buf[offset] & 0x7f) << 21) |
+    ((buf[offset + 1] & 0x7f) << 14) |
+    ((buf[offset + 2] & 0x7f) << 7) |
+    (buf[offset + 3] & 0x7f)
+  );
+}
+
+function removeUnsync(buf: Buffer): Buffer {
+  const out: number[] = [];
+  for (let i = 0; i < buf.length; i++) {
+    out.push(buf[i]);
+    if (buf[i] === 0xff && buf[i + 1] === 0x00) i++;
+  }
+  return Buffer.from(out);
+}
+
+function decodeText(buf: Buffer, encoding: number): string {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with BOM
+      if (buf.length >= 2 && buf[0] === 0xfe && buf[1] === 0xff) {
+        return decodeUtf16be(buf.subarray(2));
+      }
+      const start = buf.length >= 2 && buf[0] === 0xff && buf[1] === 0xfe ? 2 : 0;
+      return buf.subarray(start, start + ((buf.length - start) & ~1)).toString('utf16le');
+    }
+    case 2:
+      return decodeUtf16be(buf);
+    case 3:
+      return buf.toString('utf8');
+    default:
+      return buf.toString('latin1');
+  }
+}
+
+function decodeUtf16be(buf: Buffer): string {
+  const swapped = Buffer.from(buf.subarray(0, buf.length & ~1));
+  swapped.swap16();
+  return swapped.toString('utf16le');
+}
+
+/** Index just past the string terminator for the given text encoding. */
+function terminatorEnd(buf: Buffer, start: number, encoding: number): number {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < buf.length; i += 2) {
+      if (buf[i] === 0 && buf[i + 1] === 0) return i + 2;
+    }
+  } else {
+    const i = buf.indexOf(0, start);
+    if (i !== -1) return i + 1;
+  }
+  return buf.length;
+}
+
+function readTextFrame(data: Buffer): string {
+  if (data.length === 0) return '';
+  // ID3v2.4 separates multiple values with NUL; keep the first one
+  return trimNulls(decodeText(data.subarray(1), data[0]).split('\0')[0]);
+}
+
+function readPictureFrame(data: Buffer, legacy: boolean): EmbeddedPicture | undefined {
+  if (data.length < 4) return undefined;
+  const encoding = data[0];
+  let offset = 1;
+  let mimeType: string;
+
+  if (legacy) {
+    // ID3v2.2 PIC: 3-char image format instead of a MIME type
+    const format = data.subarray(1, 4).toString('latin1').toUpperCase();
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const end = terminatorEnd(data, offset, 0);
+    mimeType = data.subarray(offset, end - 1).toString('latin1') || 'image/jpeg';
+    if (!mimeType.includes('/')) mimeType = `image/${mimeType.toLowerCase()}`;
+    offset = end;
+  }
+
+  offset += 1; // picture type
+  offset = terminatorEnd(data, offset, encoding); // description
+  if (offset >= data.length) return undefined;
+  return { mimeType, data: Buffer.from(data.subarray(offset)) };
+}
+
+function readId3v2(buf: Buffer, tags: AudioTags): void {
+  const major = buf[3];
+  const flags = buf[5];
+  const size = synchsafe(buf, 6);
+  let body = buf.subarray(10, Math.min(buf.length, 10 + size));
+
+  if (flags & 0x80) body = removeUnsync(body);
+
+  let offset = 0;
+  if (flags & 0x40 && major >= 3) {
+    // Extended header: v2.3 size excludes itself, v2.4 size includes itself
+    offset = major === 4 ? synchsafe(body, 0) : body.readUInt32BE(0) + 4;
+  }
+
+  const legacy = major === 2;
+  const idLength = legacy ? 3 : 4;
+  const headerLength = legacy ? 6 : 10;
+  let pictureType = -1;
+
+  while (offset + headerLength <= body.length) {
+    const id = body.subarray(offset, offset + idLength).toString('latin1');
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+
+    let frameSize: number;
+    if (legacy) {
+      frameSize = (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5];
+    } else if (major === 4) {
+      frameSize = synchsafe(body, offset + 4);
+    } else {
+      frameSize = body.readUInt32BE(offset + 4);
+    }
+
+    const start = offset + headerLength;
+    const data = body.subarray(start, start + frameSize);
+    offset = start + frameSize;
+
+    switch (id) {
+      case 'TIT2': case 'TT2':
+        tags.title = readTextFrame(data) || tags.title;
+        break;
+      case 'TPE1': case 'TP1':
+        tags.artist = readTextFrame(data) || tags.artist;
+        break;
+      case 'TALB': case 'TAL':
+        tags.album = readTextFrame(data) || tags.album;
+        break;
+      case 'TRCK': case 'TRK':
+        tags.trackNumber = parseNumber(readTextFrame(data)) ?? tags.trackNumber;
+        break;
+      case 'TYER': case 'TYE': case 'TDRC':
+        tags.year = parseNumber(readTextFrame(data)) ?? tags.year;
+        break;
+      case 'TCON': case 'TCO':
+        tags.genre = resolveGenre(readTextFrame(data)) || tags.genre;
+        break;
+      case 'TCOP': case 'TCR':
+        tags.copyright = readTextFrame(data) || tags.copyright;
+        break;
+      case 'WCOP': case 'WCP':
+        tags.license = trimNulls(data.toString('latin1')) || tags.license;
+        break;
+      case 'TLEN': case 'TLE':
+        tags.durationMs = parseNumber(readTextFrame(data)) ?? tags.durationMs;
+        break;
+      case 'APIC': case 'PIC': {
+        // Prefer the front cover (type 3) over any other picture
+        const typeOffset = legacy ? 4 : terminatorEnd(data, 1, 0);
+        const type = data[typeOffset];
+        if (pictureType !== 3) {
+          const picture = readPictureFrame(data, legacy);
+          if (picture) {
+            tags.picture = picture;
+            pictureType = type;
+          }
+        }
+        break;
+      }
+    }
+  }
+}
+
+/** Size of a leading ID3v2 tag (header, body and footer), or 0. */
+export function id3v2Length(buf: Buffer): number {
+  if (buf.length < 10 || buf.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const footer = buf[5] & 0x10 ? 10 : 0;
+  return 10 + synchsafe(buf, 6) + footer;
+}
+
+function readId3v1(buf: Buffer, tags: AudioTags): void {
+  if (buf.length < 128) return;
+  const tag = buf.subarray(buf.length - 128);
+  if (tag.toString('latin1', 0, 3) !== 'TAG') return;
+
+  const field = (start: number, length: number) =>
+    trimNulls(tag.toString('latin1', start, start + length));
+
+  tags.title = tags.title || field(3, 30) || undefined;
+  tags.artist = tags.artist || field(33, 30) || undefined;
+  tags.album = tags.album || field(63, 30) || undefined;
+  tags.year = tags.year ?? parseNumber(field(93, 4));
+  if (tag[125] === 0 && tag[126] !== 0) {
+    tags.trackNumber = tags.trackNumber ?? tag[126];
+  }
+  tags.genre = tags.genre || ID3V1_GENRES[tag[127]];
+}
+
+// ── Vorbis comments (FLAC and Ogg) ──────────────────────────────────────────
+
+function readFlacPicture(data: Buffer): EmbeddedPicture | undefined {
+  if (data.length < 32) return undefined;
+  let offset = 4; // picture type
+  const mimeLength = data.readUInt32BE(offset);
+  offset += 4;
+  const mimeType = data.toString('latin1', offset, offset + mimeLength);
+  offset += mimeLength;
+  const descLength = data.readUInt32BE(offset);
+  offset += 4 + descLength + 16; // description, width, height, depth, colors
+  if (offset + 4 > data.length) return undefined;
+  const dataLength = data.readUInt32BE(offset);
+  offset += 4;
+  return {
+    mimeType: mimeType || 'image/jpeg',
+    data: Buffer.from(data.subarray(offset, offset + dataLength)),
+  };
+}
+
+function applyVorbisComments(data: Buffer, tags: AudioTags): void {
+  let offset = 0;
+  const vendorLength = data.readUInt32LE(offset);
+  offset += 4 + vendorLength;
+  const count = data.readUInt32LE(offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(offset);
+    offset += 4;
+    const comment = data.toString('utf8', offset, offset + length);
+    offset += length;
+
+    const eq = comment.indexOf('=');
+    if (eq === -1) continue;
+    const key = comment.slice(0, eq).toUpperCase();
+    const value = comment.slice(eq + 1).trim();
+    if (!value) continue;
+
+    switch (key) {
+      case 'TITLE': tags.title = tags.title || value; break;
+      case 'ARTIST': tags.artist = tags.artist || value; break;
+      case 'ALBUM': tags.album = tags.album || value; break;
+      case 'TRACKNUMBER': tags.trackNumber = tags.trackNumber ?? parseNumber(value); break;
+      case 'DATE': case 'YEAR': tags.year = tags.year ?? parseNumber(value); break;
+      case 'GENRE': tags.genre = tags.genre || value; break;
+      case 'LICENSE': tags.license = tags.license || value; break;
+      case 'COPYRIGHT': tags.copyright = tags.copyright || value; break;
+      case 'METADATA_BLOCK_PICTURE':
+        tags.picture = tags.picture || readFlacPicture(Buffer.from(value, 'base64'));
+        break;
+      case 'COVERART':
+        tags.picture = tags.picture || { mimeType: 'image/jpeg', data: Buffer.from(value, 'base64') };
+        break;
+    }
+  }
+}
+
+function readFlac(buf: Buffer, start: number, tags: AudioTags): void {
+  let offset = start + 4; // "fLaC"
+  let last = false;
+
+  while (!last && offset + 4 <= buf.length) {
+    const header = buf[offset];
+    last = (header & 0x80) !== 0;
+    const type = header & 0x7f;
+    const length = (buf[offset + 1] << 16) | (buf[offset + 2] << 8) | buf[offset + 3];
+    const data = buf.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+
+    if (type === 4) applyVorbisComments(data, tags);
+    if (type === 6 && !tags.picture) tags.picture = readFlacPicture(data);
+  }
+}
+
+/** Reassembles the first `count` logical packets of an Ogg stream. */
+export function readOggPackets(buf: Buffer, count: number): Buffer[] {
+  const packets: Buffer[] = [];
+  let current: Buffer[] = [];
+  let offset = 0;
+
+  while (packets.length < count && offset + 27 <= buf.length) {
+    if (buf.toString('latin1', offset, offset + 4) !== 'OggS') break;
+    const segments = buf[offset + 26];
+    const table = buf.subarray(offset + 27, offset + 27 + segments);
+    let dataOffset = offset + 27 + segments;
+
+    for (const lacing of table) {
+      current.push(buf.subarray(dataOffset, dataOffset + lacing));
+      dataOffset += lacing;
+      if (lacing < 255) {
+        packets.push(Buffer.concat(current));
+        current = [];
+        if (packets.length >= count) break;
+      }
+    }
+    offset = dataOffset;
+  }
+
+  return packets;
+}
+
+function readOgg(buf: Buffer, tags: AudioTags): void {
+  const [, comments] = readOggPackets(buf, 2);
+  if (!comments) return;
+
+  if (comments[0] === 0x03 && comments.toString('latin1', 1, 7) === 'vorbis') {
+    applyVorbisComments(comments.subarray(7), tags);
+  } else if (comments.toString('latin1', 0, 8) === 'OpusTags') {
+    applyVorbisComments(comments.subarray(8), tags);
+  }
+}
+
+/**
+ * Reads embedded tags from an MP3 (ID3v2/ID3v1), FLAC or Ogg Vorbis/Opus
+ * file. Unknown formats return an empty object.
+ */
+export function readTags(buf: Buffer): AudioTags {
+  const tags: AudioTags = {};
+  const id3Length = id3v2Length(buf);
+
+  try {
+    if (id3Length > 0) readId3v2(buf, tags);
+
+    if (buf.toString('latin1', id3Length, id3Length + 4) === 'fLaC') {
+      readFlac(buf, id3Length, tags);
+    } else if (buf.toString('latin1', 0, 4) === 'OggS') {
+      readOgg(buf, tags);
+    } else {
+      readId3v1(buf, tags);
+    }
+  } catch {
+    // Truncated or malformed tags: keep whatever was read so far
+  }
+
+  return tags;
+}
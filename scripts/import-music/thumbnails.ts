@@ -0,0 +1,24 @@
+import { runFfmpeg } from './ffmpeg';
+import { ArtworkSize } from './types';
+
+/** Variant widths, smallest first; keep in sync with the app's ARTWORK_SIZES. */
+export const ARTWORK_SIZES: ArtworkSize[] = [64, 300, 640];
+
+/**
+ * Square-cropped JPEG of at most `size` px (never upscaled). Returns null
+ * when ffmpeg is unavailable or can't read the image.
+ */
+export async function resizeArtwork(buf: Buffer, size: number): Promise<Buffer | null> {
+  const result = await runFfmpeg(
+    [
+      '-i', 'pipe:0',
+      '-vf', `crop='min(iw,ih)':'min(iw,ih)',scale='min(${size},iw)':-2`,
+      '-frames:v', '1',
+      '-pix_fmt', 'yuvj420p',
+      '-c:v', 'mjpeg', '-q:v', '4',
+      '-f', 'image2pipe', 'pipe:1',
+    ],
+    buf
+  );
+  return result && result.stdout.length > 0 ? result.stdout : null;
+}
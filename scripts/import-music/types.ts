@@ -1,3 +1,11 @@
+import * as admin from 'firebase-admin';
+import { LicenseInfo } from '../../src/types';
+
+export type ArtworkSize = 64 | 300 | 640;
+
+/** Download URLs of resized artwork, keyed by width in px. */
+export type ArtworkVariants = Partial<Record<ArtworkSize, string>>;
+
 export interface TrackRecord {
   id: string;
   title: string;
@@ -10,18 +18,53 @@ export interface TrackRecord {
   audioUrl: string;
   isLocal: boolean;
   genre: string;
+  /** Canonical license URL when recognized, otherwise the source's raw value. */
   license: string;
+  licenseInfo: LicenseInfo;
   uploadedBy: string;
   uploadedByName: string;
   titleLower: string;
+  trackNumber?: number;
+  year?: number;
   originalAudioUrl?: string;
   originalArtwork?: string;
+  artworkVariants?: ArtworkVariants;
+  /** Normalized 0–1 sample peaks of the decoded audio, for the player's seek bar. */
+  waveform?: number[];
+  /** EBU R128 integrated loudness and the ReplayGain-style gain/peak derived from it. */
+  loudnessLufs?: number;
+  gainDb?: number;
+  peak?: number;
+}
+
+/**
+ * A problem hit while fetching. `retryable` errors are transient (timeouts,
+ * rate limits, 5xx) and may succeed on the next run; `fatal` ones will not.
+ */
+export interface SourceError {
+  kind: 'retryable' | 'fatal';
+  message: string;
 }
 
 export interface SourceResult {
   sourceName: string;
   tracks: TrackRecord[];
-  errors: string[];
+  errors: SourceError[];
+  sfxSkipped: number;
+  /** The source's import-state doc before and after the run, if it keeps one. */
+  state?: { before: unknown; after: unknown };
+}
+
+/**
+ * A catalog the importer can pull tracks from. Every track a source returns
+ * must have an ID starting with `idPrefix` so sources never collide.
+ */
+export interface ImportSource {
+  name: string;
+  idPrefix: string;
+  /** Env vars that must be set for the source to run; it is skipped otherwise. */
+  requiredEnv: string[];
+  fetch: (db?: admin.firestore.Firestore) => Promise<SourceResult>;
 }
 
 export interface ImportStats {
@@ -29,5 +72,6 @@ export interface ImportStats {
   fetched: number;
   newTracks: number;
   skippedDuplicates: number;
+  sfxSkipped: number;
   errors: number;
 }
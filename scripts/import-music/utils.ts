@@ -1,4 +1,5 @@
-import { TrackRecord } from './types';
+import { TrackRecord, SourceError } from './types';
+import { parseLicense } from '../../src/utils/license';
 
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -7,6 +8,7 @@ export function sleep(ms: number): Promise<void> {
 export function sanitizeTrack(
   partial: Partial<TrackRecord> & { id: string; audioUrl: string }
 ): TrackRecord {
+  const licenseInfo = parseLicense(partial.license);
   return {
     id: partial.id,
     title: partial.title || 'Unknown Title',
@@ -19,18 +21,26 @@ export function sanitizeTrack(
     audioUrl: partial.audioUrl,
     isLocal: false,
     genre: partial.genre || 'Other',
-    license: partial.license || 'Creative Commons',
+    license: licenseInfo.url || partial.license || 'Creative Commons',
+    licenseInfo,
     uploadedBy: 'system-import',
     uploadedByName: 'Spotfly Bot',
     titleLower: (partial.title || 'unknown title').toLowerCase(),
+    ...(partial.trackNumber ? { trackNumber: partial.trackNumber } : {}),
+    ...(partial.year ? { year: partial.year } : {}),
   };
 }
 
+/** Media URLs may be remote or `file://` (read from disk by the uploader). */
+function isMediaUrl(url: string): boolean {
+  return url.startsWith('http') || url.startsWith('file://');
+}
+
 export function validateTrack(track: TrackRecord): boolean {
   if (!track.id || track.id.length > 128) return false;
-  if (!track.audioUrl || !track.audioUrl.startsWith('http')) return false;
+  if (!track.audioUrl || !isMediaUrl(track.audioUrl)) return false;
   if (!track.title) return false;
-  if (!track.artwork || !track.artwork.startsWith('http')) return false;
+  if (!track.artwork || !isMediaUrl(track.artwork)) return false;
   return true;
 }
 
@@ -127,6 +137,10 @@ export function isRockGenre(genre: string): boolean {
   return [...ROCK_GENRES].some(rg => lower.includes(rg) || rg.includes(lower));
 }
 
+export function formatSourceError(error: SourceError): string {
+  return `[${error.kind}] ${error.message}`;
+}
+
 export function log(source: string, message: string): void {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] [${source}] ${message}`);
@@ -0,0 +1,48 @@
+import { runFfmpeg } from './ffmpeg';
+
+export const WAVEFORM_BARS = 200;
+
+// Decoded to mono at this rate; plenty for per-bar peaks
+const DECODE_SAMPLE_RATE = 8000;
+
+/** Highest absolute sample per bar, scaled so the loudest bar is 1. */
+export function peaksFromSamples(samples: Float32Array, bars = WAVEFORM_BARS): number[] | null {
+  if (samples.length === 0) return null;
+
+  const peaks: number[] = new Array(bars).fill(0);
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar / bars) * samples.length);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) / bars) * samples.length));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[bar] = peak;
+  }
+
+  const max = Math.max(...peaks);
+  if (max === 0) return null;
+  return peaks.map(peak => Math.round((peak / max) * 100) / 100);
+}
+
+/**
+ * Normalized (0–1) sample peaks of a track, `bars` values long, from audio
+ * decoded with ffmpeg. Returns null when ffmpeg is not installed, fails, or
+ * the track is silent.
+ */
+export async function computeWaveform(buf: Buffer, bars = WAVEFORM_BARS): Promise<number[] | null> {
+  const result = await runFfmpeg(
+    ['-i', 'pipe:0', '-map', '0:a:0', '-ac', '1', '-ar', String(DECODE_SAMPLE_RATE), '-f', 'f32le', 'pipe:1'],
+    buf
+  );
+  if (!result) return null;
+
+  const { stdout } = result;
+  // Copy to an aligned buffer: Float32Array needs a 4-byte-aligned offset
+  const samples = new Float32Array(Math.floor(stdout.length / 4));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = stdout.readFloatLE(i * 4);
+  }
+  return peaksFromSamples(samples, bars);
+}
@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, Share, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Track } from '../types';
+import { Colors } from '../constants/Colors';
+import { Layout } from '../constants/Layout';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatCredits, CreditsFormat } from '../utils/credits';
+import SegmentedToggle from './SegmentedToggle';
+
+interface CreditsSheetProps {
+  /** Playlist or album name, used as the heading of the credits. */
+  title: string;
+  tracks: Track[];
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function CreditsSheet({ title, tracks, visible, onClose }: CreditsSheetProps) {
+  const { t } = useLanguage();
+  const [format, setFormat] = useState<CreditsFormat>('text');
+
+  const credits = useMemo(
+    () => formatCredits(tracks, format, `${t('credits.title')}: ${title}`, {
+      by: t('license.by'),
+      licensedUnder: t('license.licensedUnder'),
+    }),
+    [tracks, format, title, t]
+  );
+
+  async function handleShare() {
+    try {
+      await Share.share({ message: credits, title: `${t('credits.title')}: ${title}` });
+    } catch (e) {
+      console.error('Error sharing credits:', e);
+    }
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{t('credits.export')}</Text>
+          <Text style={styles.hint}>{t('credits.hint')}</Text>
+
+          <SegmentedToggle
+            options={[
+              { value: 'text', label: t('credits.text') },
+              { value: 'markdown', label: 'Markdown' },
+              { value: 'html', label: 'HTML' },
+            ]}
+            value={format}
+            onChange={setFormat}
+          />
+
+          <ScrollView style={styles.preview} contentContainerStyle={styles.previewContent}>
+            <Text style={styles.previewText} selectable>{credits}</Text>
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>{t('license.close')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+              <Ionicons name="share-outline" size={18} color={Colors.background} />
+              <Text style={styles.shareText}>{t('credits.share')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: Layout.borderRadius.xl,
+    borderTopRightRadius: Layout.borderRadius.xl,
+    padding: Layout.padding.lg,
+    paddingBottom: Layout.padding.xl,
+    alignItems: 'flex-start',
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  hint: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: Layout.padding.xs,
+    marginBottom: Layout.padding.md,
+  },
+  preview: {
+    alignSelf: 'stretch',
+    maxHeight: 280,
+    marginTop: Layout.padding.md,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: Layout.borderRadius.md,
+  },
+  previewContent: {
+    padding: Layout.padding.md,
+  },
+  previewText: {
+    color: Colors.textPrimary,
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  buttons: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    marginTop: Layout.padding.lg,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginRight: Layout.padding.sm,
+    borderRadius: Layout.borderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  cancelText: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  shareButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginLeft: Layout.padding.sm,
+    borderRadius: Layout.borderRadius.round,
+    backgroundColor: Colors.primary,
+  },
+  shareText: {
+    color: Colors.background,
+    fontSize: 15,
+    fontWeight: '700',
+    marginLeft: Layout.padding.xs,
+  },
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LicenseFilter } from '../types';
+import { Colors } from '../constants/Colors';
+import { Layout } from '../constants/Layout';
+import { useLanguage } from '../contexts/LanguageContext';
+import { TranslationKey } from '../i18n/translations';
+
+const FILTERS: { value: LicenseFilter; label: TranslationKey }[] = [
+  { value: 'commercial', label: 'license.filterCommercial' },
+  { value: 'remix', label: 'license.filterRemix' },
+  { value: 'noShareAlike', label: 'license.filterNoShareAlike' },
+];
+
+interface LicenseFilterChipsProps {
+  value: LicenseFilter[];
+  onChange: (value: LicenseFilter[]) => void;
+}
+
+export default function LicenseFilterChips({ value, onChange }: LicenseFilterChipsProps) {
+  const { t } = useLanguage();
+
+  function toggle(filter: LicenseFilter) {
+    onChange(value.includes(filter) ? value.filter(f => f !== filter) : [...value, filter]);
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      <Ionicons name="shield-checkmark-outline" size={16} color={Colors.textSecondary} />
+      {FILTERS.map(filter => {
+        const active = value.includes(filter.value);
+        return (
+          <TouchableOpacity
+            key={filter.value}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => toggle(filter.value)}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>
+              {t(filter.label)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingHorizontal: Layout.padding.md,
+    paddingVertical: Layout.padding.xs,
+    gap: Layout.padding.sm,
+  },
+  chip: {
+    paddingHorizontal: Layout.padding.sm + 4,
+    paddingVertical: 6,
+    borderRadius: Layout.borderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    color: Colors.textPrimary,
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: Colors.background,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,187 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Linking } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Track } from '../types';
+import { Colors } from '../constants/Colors';
+import { Layout } from '../constants/Layout';
+import { useLanguage } from '../contexts/LanguageContext';
+import { TranslationKey } from '../i18n/translations';
+import { trackLicense, licenseLabel, isKnownLicense } from '../utils/license';
+
+interface Term {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: TranslationKey;
+  allowed: boolean;
+}
+
+/** License terms of a track, as shown in the license sheet and the track options sheet. */
+export function LicenseDetails({ track }: { track: Track }) {
+  const { t } = useLanguage();
+  const info = trackLicense(track);
+  const label = licenseLabel(info);
+
+  if (!isKnownLicense(info)) {
+    return (
+      <View>
+        <Text style={styles.title}>{t('license.title')}</Text>
+        <Text style={styles.raw} selectable>{track.license || '—'}</Text>
+        <View style={styles.warning}>
+          <Ionicons name="warning-outline" size={18} color={Colors.warning} />
+          <Text style={styles.warningText}>{t('license.unknown')}</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const terms: Term[] = [
+    info.attribution
+      ? { icon: 'person-outline', label: 'license.attribution', allowed: true }
+      : { icon: 'person-outline', label: 'license.noAttribution', allowed: true },
+    info.nonCommercial
+      ? { icon: 'cash-outline', label: 'license.commercialForbidden', allowed: false }
+      : { icon: 'cash-outline', label: 'license.commercialAllowed', allowed: true },
+    info.noDerivatives
+      ? { icon: 'git-branch-outline', label: 'license.remixForbidden', allowed: false }
+      : { icon: 'git-branch-outline', label: 'license.remixAllowed', allowed: true },
+  ];
+  if (info.shareAlike) {
+    terms.push({ icon: 'repeat-outline', label: 'license.shareAlike', allowed: true });
+  }
+
+  return (
+    <View>
+      <Text style={styles.title}>{label}</Text>
+      <Text style={styles.credit} selectable>
+        "{track.title}" {t('license.by')} {track.artist}, {t('license.licensedUnder')} {label}
+      </Text>
+
+      {terms.map(term => (
+        <View key={term.label} style={styles.termRow}>
+          <Ionicons name={term.icon} size={20} color={Colors.textSecondary} />
+          <Text style={styles.termText}>{t(term.label)}</Text>
+          <Ionicons
+            name={term.allowed ? 'checkmark-circle' : 'close-circle'}
+            size={20}
+            color={term.allowed ? Colors.primary : Colors.error}
+          />
+        </View>
+      ))}
+
+      {info.url && (
+        <TouchableOpacity style={styles.linkButton} onPress={() => Linking.openURL(info.url!)}>
+          <Ionicons name="open-outline" size={16} color={Colors.textPrimary} />
+          <Text style={styles.linkText}>{t('license.openFull')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+interface LicenseSheetProps {
+  track: Track | null;
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function LicenseSheet({ track, visible, onClose }: LicenseSheetProps) {
+  const { t } = useLanguage();
+
+  return (
+    <Modal visible={visible && !!track} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          {track && <LicenseDetails track={track} />}
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>{t('license.close')}</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: Layout.borderRadius.xl,
+    borderTopRightRadius: Layout.borderRadius.xl,
+    padding: Layout.padding.lg,
+    paddingBottom: Layout.padding.xl,
+  },
+  closeButton: {
+    marginTop: Layout.padding.lg,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderRadius: Layout.borderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  closeText: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: Layout.padding.sm,
+  },
+  credit: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: Layout.padding.md,
+  },
+  raw: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginBottom: Layout.padding.md,
+  },
+  termRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Layout.padding.sm,
+  },
+  termText: {
+    flex: 1,
+    color: Colors.textPrimary,
+    fontSize: 15,
+    marginLeft: Layout.padding.sm,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: Layout.borderRadius.md,
+    padding: Layout.padding.md,
+  },
+  warningText: {
+    flex: 1,
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginLeft: Layout.padding.sm,
+    lineHeight: 18,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: Layout.padding.md,
+    paddingHorizontal: Layout.padding.md,
+    paddingVertical: Layout.padding.sm,
+    borderRadius: Layout.borderRadius.round,
+    backgroundColor: Colors.surfaceLight,
+  },
+  linkText: {
+    color: Colors.textPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: Layout.padding.xs,
+  },
+});
@@ -5,6 +5,9 @@ import { useRouter } from 'expo-router';
 import { usePlayer } from '../contexts/PlayerContext';
 import { Colors } from '../constants/Colors';
 import { Layout } from '../constants/Layout';
+import { artworkFor } from '../utils/artwork';
+
+const ARTWORK_SIZE = 44;
 
 export default function MiniPlayer() {
   const { currentTrack, isPlaying, togglePlay, nextTrack, previousTrack, position, duration } = usePlayer();
@@ -26,7 +29,10 @@ export default function MiniPlayer() {
       </View>
 
       <View style={styles.content}>
-        <Image source={{ uri: currentTrack.artwork }} style={styles.artwork} />
+        <Image
+          source={{ uri: artworkFor(currentTrack.artwork, currentTrack.artworkVariants, ARTWORK_SIZE) }}
+          style={styles.artwork}
+        />
         <View style={styles.info}>
           <Text style={styles.title} numberOfLines={1}>
             {currentTrack.title}
@@ -95,8 +101,8 @@ const styles = StyleSheet.create({
     padding: Layout.padding.sm,
   },
   artwork: {
-    width: 44,
-    height: 44,
+    width: ARTWORK_SIZE,
+    height: ARTWORK_SIZE,
     borderRadius: Layout.borderRadius.sm,
   },
   info: {
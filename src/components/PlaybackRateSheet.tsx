@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { Layout } from '../constants/Layout';
+import { useLanguage } from '../contexts/LanguageContext';
+import { usePlayer } from '../contexts/PlayerContext';
+import { RateScope } from '../types';
+import { PLAYBACK_RATES } from '../utils/audio';
+import { formatRate } from '../utils/format';
+import SegmentedToggle from './SegmentedToggle';
+
+interface PlaybackRateSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/** Bottom sheet with the speed presets and whether to remember them for the track or album. */
+export default function PlaybackRateSheet({ visible, onClose }: PlaybackRateSheetProps) {
+  const { t } = useLanguage();
+  const { rate, rateScope, setRate } = usePlayer();
+  const [scope, setScope] = useState<RateScope>('track');
+
+  useEffect(() => {
+    if (visible) setScope(rateScope || 'track');
+  }, [visible]);
+
+  function select(value: number) {
+    setRate(value, scope);
+    onClose();
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.title}>{t('rate.title')}</Text>
+          <Text style={styles.hint}>{t('rate.hint')}</Text>
+
+          <View style={styles.rates}>
+            {PLAYBACK_RATES.map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.rateChip, rate === value && styles.rateChipActive]}
+                onPress={() => select(value)}
+              >
+                <Text style={[styles.rateText, rate === value && styles.rateTextActive]}>
+                  {formatRate(value)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.scopeRow}>
+            <Text style={styles.scopeLabel}>{t('rate.rememberFor')}</Text>
+            <SegmentedToggle
+              options={[
+                { value: 'track', label: t('rate.track') },
+                { value: 'album', label: t('rate.album') },
+              ]}
+              value={scope}
+              onChange={setScope}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>{t('license.close')}</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: Layout.borderRadius.xl,
+    borderTopRightRadius: Layout.borderRadius.xl,
+    padding: Layout.padding.lg,
+    paddingBottom: Layout.padding.xl,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  hint: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  rates: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Layout.padding.sm,
+    marginTop: Layout.padding.lg,
+  },
+  rateChip: {
+    paddingHorizontal: Layout.padding.md,
+    paddingVertical: Layout.padding.sm,
+    borderRadius: Layout.borderRadius.round,
+    backgroundColor: Colors.surfaceLight,
+  },
+  rateChipActive: {
+    backgroundColor: Colors.primary,
+  },
+  rateText: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rateTextActive: {
+    color: Colors.background,
+  },
+  scopeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Layout.padding.lg,
+  },
+  scopeLabel: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+  },
+  closeButton: {
+    marginTop: Layout.padding.lg,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderRadius: Layout.borderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  closeText: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { Layout } from '../constants/Layout';
+import { useLanguage } from '../contexts/LanguageContext';
+import { usePlayer } from '../contexts/PlayerContext';
+
+const VISIBLE_MS = 4000;
+
+/** Says which track couldn't play and whether the player moved on; hides itself. */
+export default function PlaybackToast() {
+  const { t } = useLanguage();
+  const { playbackNotice, dismissPlaybackNotice } = usePlayer();
+
+  useEffect(() => {
+    if (!playbackNotice) return;
+    const timer = setTimeout(dismissPlaybackNotice, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [playbackNotice?.id]);
+
+  if (!playbackNotice) return null;
+
+  const { track, reason, skipped } = playbackNotice;
+
+  return (
+    <TouchableOpacity style={styles.container} activeOpacity={0.9} onPress={dismissPlaybackNotice}>
+      <Ionicons name="alert-circle" size={22} color={Colors.warning} />
+      <View style={styles.info}>
+        <Text style={styles.title} numberOfLines={1}>
+          {track.title}
+        </Text>
+        <Text style={styles.message} numberOfLines={1}>
+          {t(reason === 'noAudio' ? 'playback.noAudio' : 'playback.loadFailed')} · {t(skipped ? 'playback.skipping' : 'playback.stopped')}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: Layout.padding.md,
+    padding: Layout.padding.md,
+    borderRadius: Layout.borderRadius.md,
+    backgroundColor: Colors.surfaceLighter,
+  },
+  info: {
+    flex: 1,
+    marginLeft: Layout.padding.sm,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  message: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
@@ -4,6 +4,7 @@ import { useRouter } from 'expo-router';
 import { Playlist } from '../types';
 import { Colors } from '../constants/Colors';
 import { Layout } from '../constants/Layout';
+import { artworkFor } from '../utils/artwork';
 
 interface PlaylistCardProps {
   playlist: Playlist;
@@ -22,7 +23,7 @@ export default function PlaylistCard({ playlist, size = 'medium', showDescriptio
       activeOpacity={0.7}
     >
       <Image
-        source={{ uri: playlist.artwork }}
+        source={{ uri: artworkFor(playlist.artwork, playlist.artworkVariants, cardSize) }}
         style={[styles.artwork, { width: cardSize, height: cardSize }]}
       />
       <Text style={styles.title} numberOfLines={2}>
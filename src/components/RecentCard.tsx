@@ -2,17 +2,25 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
 import { Colors } from '../constants/Colors';
 import { Layout } from '../constants/Layout';
+import { ArtworkVariants } from '../types';
+import { artworkFor } from '../utils/artwork';
+
+const ARTWORK_SIZE = 56;
 
 interface RecentCardProps {
   title: string;
   artwork: string;
+  artworkVariants?: ArtworkVariants;
   onPress: () => void;
 }
 
-export default function RecentCard({ title, artwork, onPress }: RecentCardProps) {
+export default function RecentCard({ title, artwork, artworkVariants, onPress }: RecentCardProps) {
   return (
     <TouchableOpacity style={styles.container} onPress={onPress} activeOpacity={0.7}>
-      <Image source={{ uri: artwork }} style={styles.artwork} />
+      <Image
+        source={{ uri: artworkFor(artwork, artworkVariants, ARTWORK_SIZE) }}
+        style={styles.artwork}
+      />
       <Text style={styles.title} numberOfLines={2}>
         {title}
       </Text>
@@ -29,11 +37,11 @@ const styles = StyleSheet.create({
     flex: 1,
     margin: Layout.padding.xs,
     overflow: 'hidden',
-    height: 56,
+    height: ARTWORK_SIZE,
   },
   artwork: {
-    width: 56,
-    height: 56,
+    width: ARTWORK_SIZE,
+    height: ARTWORK_SIZE,
   },
   title: {
     color: Colors.textPrimary,
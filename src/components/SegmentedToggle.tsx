@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Colors } from '../constants/Colors';
+
+interface SegmentedToggleProps<T extends string> {
+  options: { value: T; label: string }[];
+  /** Null when nothing is selected yet. */
+  value: T | null;
+  onChange: (value: T) => void;
+}
+
+export default function SegmentedToggle<T extends string>({
+  options,
+  value,
+  onChange,
+}: SegmentedToggleProps<T>) {
+  return (
+    <View style={styles.container}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.option, value === option.value && styles.optionActive]}
+          onPress={() => onChange(option.value)}
+        >
+          <Text style={[styles.text, value === option.value && styles.textActive]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    padding: 2,
+  },
+  option: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  optionActive: {
+    backgroundColor: Colors.primary,
+  },
+  text: {
+    color: Colors.textSecondary,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  textActive: {
+    color: Colors.background,
+  },
+});
@@ -0,0 +1,133 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { Layout } from '../constants/Layout';
+import { useLanguage } from '../contexts/LanguageContext';
+import { usePlayer } from '../contexts/PlayerContext';
+import { SleepTimerMode } from '../types';
+import { formatDuration } from '../utils/format';
+
+const MINUTE_OPTIONS = [5, 15, 30, 45, 60];
+
+interface SleepTimerSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/** Bottom sheet for setting or cancelling the sleep timer. */
+export default function SleepTimerSheet({ visible, onClose }: SleepTimerSheetProps) {
+  const { t } = useLanguage();
+  const { sleepTimer, sleepRemaining, setSleepTimer, cancelSleepTimer } = usePlayer();
+
+  function select(mode: SleepTimerMode, minutes?: number) {
+    setSleepTimer(mode, minutes);
+    onClose();
+  }
+
+  function cancel() {
+    cancelSleepTimer();
+    onClose();
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <Text style={styles.title}>{t('sleep.title')}</Text>
+          {sleepTimer && sleepRemaining !== null && (
+            <Text style={styles.remaining}>
+              {t('sleep.stopsIn')} {formatDuration(Math.ceil(sleepRemaining))}
+            </Text>
+          )}
+
+          {MINUTE_OPTIONS.map(minutes => (
+            <TouchableOpacity key={minutes} style={styles.option} onPress={() => select('duration', minutes)}>
+              <Ionicons name="time-outline" size={22} color={Colors.textPrimary} />
+              <Text style={styles.optionText}>{minutes} {t('sleep.minutes')}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.option} onPress={() => select('endOfTrack')}>
+            <Ionicons name="musical-note-outline" size={22} color={Colors.textPrimary} />
+            <Text style={styles.optionText}>{t('sleep.endOfTrack')}</Text>
+            {sleepTimer?.mode === 'endOfTrack' && (
+              <Ionicons name="checkmark" size={20} color={Colors.primary} />
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.option} onPress={() => select('endOfAlbum')}>
+            <Ionicons name="disc-outline" size={22} color={Colors.textPrimary} />
+            <Text style={styles.optionText}>{t('sleep.endOfAlbum')}</Text>
+            {sleepTimer?.mode === 'endOfAlbum' && (
+              <Ionicons name="checkmark" size={20} color={Colors.primary} />
+            )}
+          </TouchableOpacity>
+
+          {sleepTimer && (
+            <TouchableOpacity style={styles.option} onPress={cancel}>
+              <Ionicons name="close-circle-outline" size={22} color={Colors.error} />
+              <Text style={[styles.optionText, styles.destructiveText]}>{t('sleep.cancel')}</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>{t('license.close')}</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: Layout.borderRadius.xl,
+    borderTopRightRadius: Layout.borderRadius.xl,
+    padding: Layout.padding.lg,
+    paddingBottom: Layout.padding.xl,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  remaining: {
+    color: Colors.primary,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Layout.padding.md,
+  },
+  optionText: {
+    flex: 1,
+    color: Colors.textPrimary,
+    fontSize: 15,
+    marginLeft: Layout.padding.md,
+  },
+  destructiveText: {
+    color: Colors.error,
+  },
+  closeButton: {
+    marginTop: Layout.padding.lg,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderRadius: Layout.borderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  closeText: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
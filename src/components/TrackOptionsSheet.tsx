@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { Track } from '../types';
+import { Colors } from '../constants/Colors';
+import { Layout } from '../constants/Layout';
+import { useLanguage } from '../contexts/LanguageContext';
+import { artworkFor } from '../utils/artwork';
+import { LicenseDetails } from './LicenseSheet';
+
+const ARTWORK_SIZE = 48;
+
+export interface TrackOption {
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  onPress: (track: Track) => void;
+  destructive?: boolean;
+}
+
+interface TrackOptionsSheetProps {
+  track: Track;
+  visible: boolean;
+  options?: TrackOption[];
+  onClose: () => void;
+}
+
+/** Bottom sheet behind a track row's "…" button: track page, license terms and caller options. */
+export default function TrackOptionsSheet({ track, visible, options = [], onClose }: TrackOptionsSheetProps) {
+  const { t } = useLanguage();
+  const router = useRouter();
+  const [showLicense, setShowLicense] = useState(false);
+
+  useEffect(() => {
+    if (!visible) setShowLicense(false);
+  }, [visible]);
+
+  function select(option: TrackOption) {
+    onClose();
+    option.onPress(track);
+  }
+
+  function viewTrack() {
+    onClose();
+    router.push(`/track/${encodeURIComponent(track.id)}`);
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          {showLicense ? (
+            <LicenseDetails track={track} />
+          ) : (
+            <>
+              <View style={styles.header}>
+                <Image
+                  source={{ uri: artworkFor(track.artwork, track.artworkVariants, ARTWORK_SIZE) }}
+                  style={styles.artwork}
+                />
+                <View style={styles.headerInfo}>
+                  <Text style={styles.title} numberOfLines={1}>{track.title}</Text>
+                  <Text style={styles.artist} numberOfLines={1}>{track.artist}</Text>
+                </View>
+              </View>
+
+              <TouchableOpacity style={styles.option} onPress={viewTrack}>
+                <Ionicons name="musical-note-outline" size={22} color={Colors.textPrimary} />
+                <Text style={styles.optionText}>{t('track.view')}</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.option} onPress={() => setShowLicense(true)}>
+                <Ionicons name="shield-checkmark-outline" size={22} color={Colors.textPrimary} />
+                <Text style={styles.optionText}>{t('license.view')}</Text>
+              </TouchableOpacity>
+
+              {options.map(option => (
+                <TouchableOpacity key={option.label} style={styles.option} onPress={() => select(option)}>
+                  <Ionicons
+                    name={option.icon}
+                    size={22}
+                    color={option.destructive ? Colors.error : Colors.textPrimary}
+                  />
+                  <Text style={[styles.optionText, option.destructive && styles.destructiveText]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>{t('license.close')}</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: Colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surfaceElevated,
+    borderTopLeftRadius: Layout.borderRadius.xl,
+    borderTopRightRadius: Layout.borderRadius.xl,
+    padding: Layout.padding.lg,
+    paddingBottom: Layout.padding.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: Layout.padding.md,
+    marginBottom: Layout.padding.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: Colors.divider,
+  },
+  artwork: {
+    width: ARTWORK_SIZE,
+    height: ARTWORK_SIZE,
+    borderRadius: Layout.borderRadius.sm,
+  },
+  headerInfo: {
+    flex: 1,
+    marginLeft: Layout.padding.sm,
+  },
+  title: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  artist: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginTop: 2,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Layout.padding.md,
+  },
+  optionText: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    marginLeft: Layout.padding.md,
+  },
+  destructiveText: {
+    color: Colors.error,
+  },
+  closeButton: {
+    marginTop: Layout.padding.lg,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderRadius: Layout.borderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.inactive,
+  },
+  closeText: {
+    color: Colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,11 +1,15 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Track } from '../types';
 import { Colors } from '../constants/Colors';
 import { Layout } from '../constants/Layout';
 import { formatDuration } from '../utils/format';
+import { artworkFor } from '../utils/artwork';
 import { usePlayer } from '../contexts/PlayerContext';
+import TrackOptionsSheet, { TrackOption } from './TrackOptionsSheet';
+
+const ARTWORK_SIZE = 48;
 
 interface TrackRowProps {
   track: Track;
@@ -16,7 +20,8 @@ interface TrackRowProps {
   isOffline?: boolean;
   isSyncingTrack?: boolean;
   onSyncPress?: (track: Track) => void;
-  onOptionsPress?: (track: Track) => void;
+  /** Extra entries for the options sheet, which always offers the license terms. */
+  options?: TrackOption[];
 }
 
 export default function TrackRow({
@@ -28,10 +33,12 @@ export default function TrackRow({
   isOffline = false,
   isSyncingTrack = false,
   onSyncPress,
-  onOptionsPress,
+  options,
 }: TrackRowProps) {
-  const { currentTrack, isPlaying, playTrack } = usePlayer();
+  const { currentTrack, isPlaying, playTrack, trackErrors } = usePlayer();
+  const [showOptions, setShowOptions] = useState(false);
   const isActive = currentTrack?.id === track.id;
+  const failed = !!trackErrors[track.id];
 
   return (
     <TouchableOpacity
@@ -52,17 +59,23 @@ export default function TrackRow({
       )}
 
       {showArtwork && (
-        <Image source={{ uri: track.artwork }} style={styles.artwork} />
+        <Image
+          source={{ uri: artworkFor(track.artwork, track.artworkVariants, ARTWORK_SIZE) }}
+          style={styles.artwork}
+        />
       )}
 
       <View style={styles.info}>
         <Text
-          style={[styles.title, isActive && styles.activeText]}
+          style={[styles.title, isActive && styles.activeText, failed && styles.failedText]}
           numberOfLines={1}
         >
           {track.title}
         </Text>
         <View style={styles.subtitleRow}>
+          {failed && (
+            <Ionicons name="alert-circle" size={12} color={Colors.warning} style={styles.offlineIcon} />
+          )}
           {isOffline && (
             <Ionicons name="arrow-down-circle" size={12} color={Colors.primary} style={styles.offlineIcon} />
           )}
@@ -90,13 +103,20 @@ export default function TrackRow({
 
       <Text style={styles.duration}>{formatDuration(track.duration)}</Text>
 
-      {onOptionsPress && (
-        <TouchableOpacity
-          style={styles.optionsButton}
-          onPress={() => onOptionsPress(track)}
-        >
-          <Ionicons name="ellipsis-horizontal" size={18} color={Colors.textSecondary} />
-        </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.optionsButton}
+        onPress={() => setShowOptions(true)}
+      >
+        <Ionicons name="ellipsis-horizontal" size={18} color={Colors.textSecondary} />
+      </TouchableOpacity>
+
+      {showOptions && (
+        <TrackOptionsSheet
+          track={track}
+          visible={showOptions}
+          options={options}
+          onClose={() => setShowOptions(false)}
+        />
       )}
     </TouchableOpacity>
   );
@@ -118,8 +138,8 @@ const styles = StyleSheet.create({
     fontSize: 14,
   },
   artwork: {
-    width: 48,
-    height: 48,
+    width: ARTWORK_SIZE,
+    height: ARTWORK_SIZE,
     borderRadius: Layout.borderRadius.sm,
     marginRight: Layout.padding.sm,
   },
@@ -134,6 +154,9 @@ const styles = StyleSheet.create({
   activeText: {
     color: Colors.primary,
   },
+  failedText: {
+    color: Colors.textTertiary,
+  },
   subtitleRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,7 +1,46 @@
 import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
 import { Audio, AVPlaybackStatus } from 'expo-av';
-import { Track, RepeatMode } from '../types';
+import {
+  Track,
+  RepeatMode,
+  PlayerSettings,
+  PlayerState,
+  HistoryEntry,
+  SleepTimer,
+  RateScope,
+  PlaybackRates,
+  ResumePosition,
+  PlaybackErrorReason,
+  PlaybackNotice,
+} from '../types';
 import { getOfflinePath } from '../services/offlineStorage';
+import { loadData, saveData, KEYS } from '../services/storage';
+import { recordHistoryEntry, getHistory, recentTrackIds } from '../services/history';
+import { reportUnplayableTrack } from '../services/firestore';
+import { getRadioTracks } from '../services/radio';
+import { isResumable, resumePosition, saveResumePosition, getResumePosition } from '../services/positions';
+import { MediaSessionAdapter, createMediaSession } from '../services/mediaSession';
+import { artworkFor } from '../utils/artwork';
+import {
+  normalizationVolume,
+  rateKey,
+  rateScopeFor,
+  rememberedRate,
+  MIN_PLAYBACK_RATE,
+  MAX_PLAYBACK_RATE,
+} from '../utils/audio';
+import {
+  QueueOrder,
+  createOrder,
+  reorder,
+  resumeOrder,
+  advance,
+  goBack,
+  appendToOrder,
+  removeFromOrder,
+  currentIndex,
+} from '../utils/queue';
+import { useAuth } from './AuthContext';
 
 interface PlayerContextType {
   currentTrack: Track | null;
@@ -23,6 +62,78 @@ interface PlayerContextType {
   addToQueue: (track: Track) => void;
   removeFromQueue: (index: number) => void;
   clearQueue: () => void;
+  settings: PlayerSettings;
+  updateSettings: (updates: Partial<PlayerSettings>) => void;
+  sleepTimer: SleepTimer | null;
+  sleepRemaining: number | null; // seconds until playback stops
+  setSleepTimer: (mode: SleepTimer['mode'], minutes?: number) => void;
+  cancelSleepTimer: () => void;
+  rate: number;
+  rateScope: RateScope | null; // where the current track's speed is remembered, if anywhere
+  setRate: (rate: number, scope?: RateScope) => Promise<void>;
+  resumeOffer: ResumePosition | null; // saved position in the current long track, until taken or dismissed
+  acceptResume: () => Promise<void>;
+  dismissResume: () => void;
+  trackErrors: Record<string, PlaybackErrorReason>; // tracks that failed to play this session, by id
+  playbackNotice: PlaybackNotice | null; // last skipped track, for the toast
+  dismissPlaybackNotice: () => void;
+}
+
+const DEFAULT_SETTINGS: PlayerSettings = {
+  normalization: 'track',
+  crossfadeSeconds: 0,
+  autoplay: true,
+};
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+// Load the next track this long before the current one ends
+const PRELOAD_SECONDS = 20;
+const FADE_STEP_MS = 100;
+
+// The sleep timer fades the volume out over its last seconds
+const SLEEP_FADE_SECONDS = 30;
+
+// Autoplay appends this many similar tracks at a time, based on the last few queued
+const RADIO_BATCH = 10;
+const RADIO_SEEDS = 5;
+// Recently played tracks autoplay won't pick
+const RADIO_RECENT = 50;
+
+const BOOKMARK_INTERVAL_MS = 15000;
+// Positions closer to the start than this aren't worth offering
+const MIN_RESUME_SECONDS = 30;
+
+// What survives an app restart; the current track is queue[queueIndex]
+type SavedQueue = Pick<PlayerState, 'queue' | 'queueIndex' | 'position' | 'shuffle' | 'repeat'> & {
+  order?: number[];
+};
+
+const POSITION_SAVE_INTERVAL_MS = 5000;
+
+// Listening time after which a play counts (tracks shorter than this count when they finish)
+const COUNTED_PLAY_SECONDS = 30;
+
+interface Listen {
+  track: Track;
+  entry: HistoryEntry;
+  lastPosition: number;
+}
+
+interface Preloaded {
+  sound: Audio.Sound;
+  track: Track;
+  index: number;
+  order: QueueOrder; // play order once this track is current
+  from: QueueOrder; // order it was computed from; stale once that is replaced
+  repeat: RepeatMode;
+}
+
+interface Fade {
+  timer: ReturnType<typeof setInterval>;
+  from: Audio.Sound;
+  to: Audio.Sound;
+  toVolume: number;
 }
 
 const PlayerContext = createContext<PlayerContextType>({} as PlayerContextType);
@@ -31,7 +142,13 @@ export function usePlayer() {
   return useContext(PlayerContext);
 }
 
-export function PlayerProvider({ children }: { children: ReactNode }) {
+interface PlayerProviderProps {
+  children: ReactNode;
+  mediaSession?: MediaSessionAdapter; // defaults to the platform's; tests pass a mock
+}
+
+export function PlayerProvider({ children, mediaSession }: PlayerProviderProps) {
+  const { user } = useAuth();
   const [currentTrack, setCurrentTrack] = useState<Track | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [queue, setQueue] = useState<Track[]>([]);
@@ -40,17 +157,228 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   const [duration, setDuration] = useState(0);
   const [shuffle, setShuffle] = useState(false);
   const [repeat, setRepeat] = useState<RepeatMode>('off');
+  const [settings, setSettings] = useState<PlayerSettings>(DEFAULT_SETTINGS);
+  const [sleepTimer, setSleepTimerState] = useState<SleepTimer | null>(null);
+  const [rate, setRateState] = useState(1);
+  const [rates, setRates] = useState<PlaybackRates>({});
+  const [resumeOffer, setResumeOffer] = useState<ResumePosition | null>(null);
+  const [trackErrors, setTrackErrors] = useState<Record<string, PlaybackErrorReason>>({});
+  const [playbackNotice, setPlaybackNotice] = useState<PlaybackNotice | null>(null);
+  // Re-renders once a second while a sleep timer runs, for the countdown
+  const [, setSleepTick] = useState(0);
   const soundRef = useRef<Audio.Sound | null>(null);
+  // Read by loadAndPlayTrack, which runs from stale status-callback closures
+  const settingsRef = useRef(settings);
+  // Don't overwrite the saved queue before it has been restored
+  const queueRestoredRef = useRef(false);
+  const positionSavedAtRef = useRef(0);
+  // The listen being recorded to history; refs because status callbacks are stale closures
+  const listenRef = useRef<Listen | null>(null);
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = user?.id ?? null;
+  // Play order and back stack, plus the state handleTrackFinish reads from stale status callbacks
+  const orderRef = useRef<QueueOrder>(createOrder(0, 0, false));
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const shuffleRef = useRef(shuffle);
+  shuffleRef.current = shuffle;
+  const repeatRef = useRef(repeat);
+  repeatRef.current = repeat;
+  // Next track, loaded ahead for gapless/crossfade, and the crossfade in progress
+  const preloadRef = useRef<Preloaded | null>(null);
+  const preloadingRef = useRef(false);
+  const fadeRef = useRef<Fade | null>(null);
+  // Sleep timer and the volume factor its fade-out is at (1 = not fading)
+  const sleepTimerRef = useRef<SleepTimer | null>(null);
+  const sleepVolumeRef = useRef(1);
+  const currentTrackRef = useRef(currentTrack);
+  currentTrackRef.current = currentTrack;
+  // Speed of the current track, and remembered speeds, for loads started from status callbacks
+  const rateRef = useRef(1);
+  const ratesRef = useRef<PlaybackRates>({});
+  // Track loaded in soundRef and its last reported position, for resume bookmarks
+  const soundTrackRef = useRef<Track | null>(null);
+  const positionRef = useRef(0);
+  const durationRef = useRef(0);
+  const bookmarkSavedAtRef = useRef(0);
+  // Latest load; an older one that finishes later discards its sound
+  const loadIdRef = useRef(0);
+  // Unplayable tracks in a row, to stop skipping when nothing in the queue plays
+  const failuresRef = useRef(0);
+  const reportedRef = useRef(new Set<string>());
+  const trackErrorsRef = useRef(trackErrors);
+  trackErrorsRef.current = trackErrors;
+  // Autoplay fetch in flight, and the queue it last found nothing for
+  const radioRef = useRef<Promise<boolean> | null>(null);
+  const radioExhaustedRef = useRef<Track[] | null>(null);
+  const mediaSessionRef = useRef<MediaSessionAdapter | null>(null);
+  if (!mediaSessionRef.current) {
+    mediaSessionRef.current = mediaSession || createMediaSession();
+  }
+  // Remote commands arrive outside React; route them to this render's controls
+  const remoteRef = useRef({ isPlaying, togglePlay, nextTrack, previousTrack, seekTo });
 
   useEffect(() => {
     setupAudio();
+    loadData<PlayerSettings>(KEYS.PLAYER_SETTINGS).then(saved => {
+      if (saved) setSettings({ ...DEFAULT_SETTINGS, ...saved });
+    });
+    restoreQueue();
     return () => {
+      stopFade();
+      discardPreload();
       if (soundRef.current) {
         soundRef.current.unloadAsync();
       }
     };
   }, []);
 
+  // Re-apply normalization when the setting changes mid-track
+  useEffect(() => {
+    settingsRef.current = settings;
+    // A running crossfade sets the volume itself
+    if (soundRef.current && currentTrack && !fadeRef.current) {
+      soundRef.current
+        .setVolumeAsync(normalizationVolume(currentTrack, settings.normalization) * sleepVolumeRef.current)
+        .catch(() => {});
+    }
+  }, [settings, currentTrack]);
+
+  // ── Media session (lock screen, notification, media keys) ──
+  remoteRef.current = { isPlaying, togglePlay, nextTrack, previousTrack, seekTo };
+
+  useEffect(() => {
+    const session = mediaSessionRef.current!;
+    session.setHandlers({
+      play: () => { if (!remoteRef.current.isPlaying) remoteRef.current.togglePlay(); },
+      pause: () => { if (remoteRef.current.isPlaying) remoteRef.current.togglePlay(); },
+      next: () => remoteRef.current.nextTrack(),
+      previous: () => remoteRef.current.previousTrack(),
+      seekTo: (seconds) => remoteRef.current.seekTo(seconds),
+    });
+    return () => {
+      session.setHandlers(null);
+      session.setMetadata(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    mediaSessionRef.current!.setMetadata(currentTrack ? {
+      title: currentTrack.title,
+      artist: currentTrack.artist,
+      album: currentTrack.album,
+      artwork: artworkFor(currentTrack.artwork, currentTrack.artworkVariants, 640),
+    } : null);
+  }, [currentTrack]);
+
+  useEffect(() => {
+    mediaSessionRef.current!.setPlaybackState(currentTrack ? (isPlaying ? 'playing' : 'paused') : 'none');
+  }, [currentTrack, isPlaying]);
+
+  useEffect(() => {
+    mediaSessionRef.current!.setPosition(position, duration, rate);
+  }, [position, duration, rate]);
+
+  // Ticks the countdown and catches a duration timer that ran out while paused
+  useEffect(() => {
+    if (!sleepTimer) return;
+    const timer = setInterval(() => {
+      setSleepTick(tick => tick + 1);
+      if (sleepTimer.mode === 'duration' && sleepTimer.endsAt! <= Date.now()) {
+        stopForSleep();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [sleepTimer]);
+
+  // Persist the queue on every change, and the position at most every few seconds
+  useEffect(() => {
+    saveQueue();
+  }, [queue, queueIndex, shuffle, repeat, isPlaying]);
+
+  useEffect(() => {
+    if (Date.now() - positionSavedAtRef.current >= POSITION_SAVE_INTERVAL_MS) {
+      saveQueue();
+    }
+  }, [position]);
+
+  function saveQueue() {
+    if (!queueRestoredRef.current) return;
+    positionSavedAtRef.current = Date.now();
+    const saved: SavedQueue = { queue, queueIndex, position, shuffle, repeat, order: orderRef.current.order };
+    saveData(KEYS.QUEUE, saved);
+  }
+
+  /** Restores the last session paused; the sound is loaded on the next play. */
+  async function restoreQueue() {
+    const [saved, savedRates] = await Promise.all([
+      loadData<SavedQueue>(KEYS.QUEUE),
+      loadData<PlaybackRates>(KEYS.PLAYBACK_RATES),
+    ]);
+    ratesRef.current = savedRates || {};
+    setRates(ratesRef.current);
+    const track = saved?.queue?.[saved.queueIndex];
+    if (saved && track) {
+      applyTrackRate(track);
+      setQueue(saved.queue);
+      setQueueIndex(saved.queueIndex);
+      setCurrentTrack(track);
+      setPosition(saved.position || 0);
+      setDuration(track.duration);
+      setShuffle(!!saved.shuffle);
+      setRepeat(saved.repeat || 'off');
+      orderRef.current = resumeOrder(saved.order, saved.queue.length, saved.queueIndex, !!saved.shuffle);
+    }
+    queueRestoredRef.current = true;
+  }
+
+  // ── Listening history ──
+  function startListen(track: Track, startPosition = 0) {
+    endListen('skip');
+    const startedAt = Date.now();
+    const entry: HistoryEntry = {
+      id: `${startedAt}-${track.id}`,
+      trackId: track.id,
+      title: track.title,
+      artist: track.artist,
+      artwork: track.artwork,
+      startedAt,
+      listenedSeconds: 0,
+      counted: false,
+    };
+    listenRef.current = { track, entry, lastPosition: startPosition };
+    recordHistoryEntry(userIdRef.current, entry);
+  }
+
+  function trackListen(positionSeconds: number) {
+    const listen = listenRef.current;
+    if (!listen) return;
+    const delta = positionSeconds - listen.lastPosition;
+    listen.lastPosition = positionSeconds;
+    // Seeks jump further than one status interval; don't count them as listening
+    if (delta <= 0 || delta > 2) return;
+    listen.entry.listenedSeconds += delta;
+    if (!listen.entry.counted && listen.entry.listenedSeconds >= COUNTED_PLAY_SECONDS) {
+      listen.entry = { ...listen.entry, counted: true };
+      recordHistoryEntry(userIdRef.current, roundListen(listen.entry));
+    }
+  }
+
+  function endListen(endedBy: 'complete' | 'skip') {
+    const listen = listenRef.current;
+    if (!listen) return;
+    listenRef.current = null;
+    recordHistoryEntry(userIdRef.current, roundListen({
+      ...listen.entry,
+      counted: listen.entry.counted || endedBy === 'complete',
+      endedBy,
+    }));
+  }
+
+  function roundListen(entry: HistoryEntry): HistoryEntry {
+    return { ...entry, listenedSeconds: Math.round(entry.listenedSeconds) };
+  }
+
   async function setupAudio() {
     try {
       await Audio.setAudioModeAsync({
@@ -63,121 +391,580 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   }
 
   const onPlaybackStatusUpdate = useCallback((status: AVPlaybackStatus) => {
-    if (!status.isLoaded) return;
+    if (!status.isLoaded) {
+      // Failed mid-track, e.g. a broken stream: handled like a failed load
+      const track = soundTrackRef.current;
+      if (status.error && track) {
+        console.error('Playback error:', status.error);
+        const failed = soundRef.current;
+        soundRef.current = null;
+        soundTrackRef.current = null;
+        failed?.unloadAsync().catch(() => {});
+        endListen('skip');
+        skipUnplayable(track, currentIndex(orderRef.current), 'loadFailed', status.error);
+      }
+      return;
+    }
+    trackListen(status.positionMillis / 1000);
+    positionRef.current = status.positionMillis / 1000;
+    durationRef.current = status.durationMillis ? status.durationMillis / 1000 : 0;
+    if (status.isPlaying || status.didJustFinish) {
+      bookmarkPosition(status.didJustFinish);
+    }
     setPosition(status.positionMillis / 1000);
     setDuration(status.durationMillis ? status.durationMillis / 1000 : 0);
     setIsPlaying(status.isPlaying);
+    if (status.isPlaying && sleepTimerRef.current) {
+      applySleepFade(status.positionMillis / 1000, (status.durationMillis || 0) / 1000);
+    }
+    // Playback stops at the end of this track; don't start the next one under it
+    const stopsHere = !!sleepTimerRef.current && sleepStopsAfterCurrent(sleepTimerRef.current);
+    if (status.isPlaying && status.durationMillis && !stopsHere) {
+      const remaining = (status.durationMillis - status.positionMillis) / 1000;
+      // Short tracks fade over at most half their length
+      const fadeSeconds = Math.min(settingsRef.current.crossfadeSeconds, status.durationMillis / 2000);
+      if (remaining <= Math.max(PRELOAD_SECONDS, fadeSeconds + 5)) {
+        preloadNext();
+      }
+      if (fadeSeconds > 0 && remaining <= fadeSeconds && !fadeRef.current) {
+        const next = takePreloaded();
+        if (next) startPreloaded(next, fadeSeconds, 'complete');
+      }
+    }
     if (status.didJustFinish) {
       handleTrackFinish();
     }
   }, [queue, queueIndex, repeat, shuffle]);
 
   async function handleTrackFinish() {
-    if (repeat === 'one') {
+    const finished = listenRef.current?.track;
+    endListen('complete');
+
+    if (sleepTimerRef.current && sleepStopsAfterCurrent(sleepTimerRef.current)) {
+      stopForSleep();
+      setPosition(0);
+      return;
+    }
+
+    if (repeatRef.current === 'one') {
       await soundRef.current?.replayAsync();
+      if (finished) startListen(finished);
       return;
     }
 
-    const nextIndex = getNextIndex();
-    if (nextIndex !== -1) {
-      await loadAndPlayTrack(queue[nextIndex], nextIndex);
-    } else {
+    if (!(await playNext())) {
       setIsPlaying(false);
       setPosition(0);
     }
   }
 
-  function getNextIndex(): number {
-    if (shuffle) {
-      const remaining = queue
-        .map((_, i) => i)
-        .filter(i => i !== queueIndex);
-      if (remaining.length === 0) {
-        return repeat === 'all' ? Math.floor(Math.random() * queue.length) : -1;
-      }
-      return remaining[Math.floor(Math.random() * remaining.length)];
+  /** Plays the next track in the play order; false when the queue has ended. */
+  async function playNext(): Promise<boolean> {
+    const preloaded = takePreloaded();
+    if (preloaded) {
+      await startPreloaded(preloaded, 0, 'skip');
+      return true;
+    }
+    let next = advance(orderRef.current, repeatRef.current, shuffleRef.current);
+    if (!next && await extendWithRadio()) {
+      next = advance(orderRef.current, repeatRef.current, shuffleRef.current);
     }
+    const index = next ? currentIndex(next) : -1;
+    const track = queueRef.current[index];
+    if (!next || !track) return false;
+    orderRef.current = next;
+    await loadAndPlayTrack(track, index);
+    return true;
+  }
 
-    const next = queueIndex + 1;
-    if (next >= queue.length) {
-      return repeat === 'all' ? 0 : -1;
+  // ── Autoplay ──
+  /**
+   * Appends tracks similar to the end of the queue once it runs out. False when
+   * autoplay is off or nothing new was found. Concurrent calls share one fetch.
+   */
+  function extendWithRadio(): Promise<boolean> {
+    const queued = queueRef.current;
+    if (!settingsRef.current.autoplay || queued.length === 0 || radioExhaustedRef.current === queued) {
+      return Promise.resolve(false);
     }
-    return next;
+    if (!radioRef.current) {
+      radioRef.current = fetchRadio(queued).finally(() => {
+        radioRef.current = null;
+      });
+    }
+    return radioRef.current;
   }
 
-  async function loadAndPlayTrack(track: Track, index: number) {
+  async function fetchRadio(queued: Track[]): Promise<boolean> {
     try {
-      if (soundRef.current) {
-        await soundRef.current.unloadAsync();
+      const history = await getHistory(userIdRef.current, RADIO_RECENT);
+      const exclude = new Set([
+        ...queued.map(t => t.id),
+        ...recentTrackIds(history, RADIO_RECENT),
+        ...Object.keys(trackErrorsRef.current),
+      ]);
+      const tracks = await getRadioTracks(queued.slice(-RADIO_SEEDS), exclude, RADIO_BATCH);
+      // A new queue replaced this one meanwhile
+      if (queueRef.current !== queued) return false;
+      if (tracks.length === 0) {
+        radioExhaustedRef.current = queued;
+        return false;
       }
+      let order = orderRef.current;
+      tracks.forEach((_, i) => {
+        order = appendToOrder(order, queued.length + i);
+      });
+      orderRef.current = order;
+      setQueueTracks([...queued, ...tracks.map(t => ({ ...t, autoplay: true }))]);
+      return true;
+    } catch (e) {
+      console.error('Error loading autoplay tracks:', e);
+      return false;
+    }
+  }
 
-      if (!track.audioUrl) {
-        // For tracks without audio URLs, simulate playback
-        setCurrentTrack(track);
-        setQueueIndex(index);
-        setPosition(0);
-        setDuration(track.duration);
-        setIsPlaying(true);
-
-        // Simulate progress
-        const interval = setInterval(() => {
-          setPosition(prev => {
-            if (prev >= track.duration) {
-              clearInterval(interval);
-              handleTrackFinish();
-              return 0;
-            }
-            return prev + 1;
-          });
-        }, 1000);
+  // ── Gapless and crossfade ──
+  async function preloadNext() {
+    if (preloadingRef.current || preloadRef.current || repeatRef.current === 'one') return;
+    const from = orderRef.current;
+    const repeatMode = repeatRef.current;
+    const order = advance(from, repeatMode, shuffleRef.current);
+    if (!order) {
+      // Fetched ahead so autoplay starts gapless too; a later call preloads it
+      extendWithRadio();
+      return;
+    }
+    const index = currentIndex(order);
+    const track = queueRef.current[index];
+    if (!track?.audioUrl) return;
 
-        soundRef.current = null;
+    preloadingRef.current = true;
+    try {
+      const offlinePath = await getOfflinePath(track.id);
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: offlinePath || track.audioUrl },
+        {
+          shouldPlay: false,
+          volume: normalizationVolume(track, settingsRef.current.normalization),
+          rate: rememberedRate(ratesRef.current, track),
+          shouldCorrectPitch: true,
+          pitchCorrectionQuality: Audio.PitchCorrectionQuality.High,
+        }
+      );
+      if (orderRef.current !== from) {
+        await sound.unloadAsync();
         return;
       }
+      preloadRef.current = { sound, track, index, order, from, repeat: repeatMode };
+    } catch (e) {
+      console.error('Error preloading track:', e);
+    } finally {
+      preloadingRef.current = false;
+    }
+  }
+
+  /** The preloaded track, if it is still what plays next. */
+  function takePreloaded(): Preloaded | null {
+    const preloaded = preloadRef.current;
+    if (!preloaded) return null;
+    if (preloaded.from !== orderRef.current || preloaded.repeat !== repeatRef.current) {
+      discardPreload();
+      return null;
+    }
+    preloadRef.current = null;
+    return preloaded;
+  }
+
+  function discardPreload() {
+    const preloaded = preloadRef.current;
+    preloadRef.current = null;
+    preloaded?.sound.unloadAsync().catch(() => {});
+  }
+
+  /**
+   * Makes a preloaded track current. With `fadeSeconds` 0 the old sound stops
+   * as the new one starts (gapless); otherwise the two overlap and crossfade.
+   */
+  async function startPreloaded(next: Preloaded, fadeSeconds: number, endedBy: 'complete' | 'skip') {
+    loadIdRef.current++;
+    failuresRef.current = 0;
+    bookmarkPosition(true);
+    endListen(endedBy);
+    stopFade();
+    const previous = soundRef.current;
+    const volume = normalizationVolume(next.track, settingsRef.current.normalization) * sleepVolumeRef.current;
+
+    soundRef.current = next.sound;
+    soundTrackRef.current = next.track;
+    orderRef.current = next.order;
+    applyTrackRate(next.track);
+    previous?.setOnPlaybackStatusUpdate(null);
+    next.sound.setOnPlaybackStatusUpdate(onPlaybackStatusUpdate);
+
+    const previousStatus = previous ? await previous.getStatusAsync().catch(() => null) : null;
+    const previousVolume = previousStatus?.isLoaded ? previousStatus.volume : 1;
+    try {
+      if (fadeSeconds > 0) await next.sound.setVolumeAsync(0);
+      await next.sound.playAsync();
+    } catch (e) {
+      console.error('Error starting preloaded track:', e);
+    }
+    setCurrentTrack(next.track);
+    setQueueIndex(next.index);
+    setPosition(0);
+    setDuration(next.track.duration);
+    setIsPlaying(true);
+    startListen(next.track);
+    positionRef.current = 0;
+    durationRef.current = next.track.duration;
+    offerResume(next.track);
+
+    if (!previous) return;
+    if (fadeSeconds > 0) {
+      crossfade(previous, previousVolume, next.sound, volume, fadeSeconds);
+    } else {
+      previous.unloadAsync().catch(() => {});
+    }
+  }
+
+  // Equal-power curves keep the overall loudness steady through the fade
+  function crossfade(from: Audio.Sound, fromVolume: number, to: Audio.Sound, toVolume: number, seconds: number) {
+    const steps = Math.max(1, Math.round((seconds * 1000) / FADE_STEP_MS));
+    let step = 0;
+    const timer = setInterval(() => {
+      step++;
+      const progress = Math.min(1, step / steps);
+      from.setVolumeAsync(fromVolume * Math.cos((progress * Math.PI) / 2)).catch(() => {});
+      to.setVolumeAsync(toVolume * Math.sin((progress * Math.PI) / 2)).catch(() => {});
+      if (progress >= 1) stopFade();
+    }, FADE_STEP_MS);
+    fadeRef.current = { timer, from, to, toVolume };
+  }
+
+  /** Ends a running crossfade at once: the old sound is unloaded, the new one at full volume. */
+  function stopFade() {
+    const fade = fadeRef.current;
+    if (!fade) return;
+    fadeRef.current = null;
+    clearInterval(fade.timer);
+    fade.from.unloadAsync().catch(() => {});
+    fade.to.setVolumeAsync(fade.toVolume).catch(() => {});
+  }
+
+  // ── Resume bookmarks ──
+  /** Saves where the current long track is at; at most every few seconds unless `force`. */
+  function bookmarkPosition(force = false) {
+    const track = soundTrackRef.current;
+    if (!track || !isResumable(track)) return;
+    if (!force && Date.now() - bookmarkSavedAtRef.current < BOOKMARK_INTERVAL_MS) return;
+    bookmarkSavedAtRef.current = Date.now();
+    saveResumePosition(
+      userIdRef.current,
+      resumePosition(track.id, positionRef.current, durationRef.current || track.duration)
+    );
+  }
+
+  async function offerResume(track: Track) {
+    setResumeOffer(null);
+    if (!isResumable(track)) return;
+    const saved = await getResumePosition(userIdRef.current, track.id);
+    if (!saved || saved.finished || saved.position < MIN_RESUME_SECONDS) return;
+    // Only while the same track plays and the listener hasn't moved on their own
+    if (currentTrackRef.current?.id !== track.id || positionRef.current > MIN_RESUME_SECONDS) return;
+    setResumeOffer(saved);
+  }
+
+  async function acceptResume() {
+    if (resumeOffer && resumeOffer.trackId === currentTrack?.id) {
+      await seekTo(resumeOffer.position);
+    }
+    setResumeOffer(null);
+  }
+
+  function dismissResume() {
+    setResumeOffer(null);
+  }
+
+  // ── Sleep timer ──
+  function albumKey(track: Track): string {
+    return track.albumId || track.album;
+  }
+
+  /** Whether an end-of-track/album timer stops playback when the current track ends. */
+  function sleepStopsAfterCurrent(timer: SleepTimer): boolean {
+    if (timer.mode === 'endOfTrack') return true;
+    if (timer.mode !== 'endOfAlbum') return false;
+    const { order, position } = orderRef.current;
+    const next = queueRef.current[order[position + 1]];
+    return !next || albumKey(next) !== timer.album;
+  }
+
+  /** Seconds until the timer stops playback, given the current track's position. */
+  function sleepSecondsLeft(timer: SleepTimer, positionSeconds: number, durationSeconds: number): number {
+    if (timer.mode === 'duration') return (timer.endsAt! - Date.now()) / 1000;
+    let left = Math.max(0, durationSeconds - positionSeconds);
+    if (timer.mode === 'endOfAlbum') {
+      const { order, position } = orderRef.current;
+      for (const index of order.slice(position + 1)) {
+        const track = queueRef.current[index];
+        if (!track || albumKey(track) !== timer.album) break;
+        left += track.duration;
+      }
+    }
+    // Track time runs faster or slower than the clock at other speeds
+    return left / rateRef.current;
+  }
+
+  function applySleepFade(positionSeconds: number, durationSeconds: number) {
+    const timer = sleepTimerRef.current;
+    const track = currentTrackRef.current;
+    if (!timer || !track) return;
+    const left = sleepSecondsLeft(timer, positionSeconds, durationSeconds);
+    if (timer.mode === 'duration' && left <= 0) {
+      stopForSleep();
+      return;
+    }
+    const factor = Math.max(0, Math.min(1, left / SLEEP_FADE_SECONDS));
+    if (factor === sleepVolumeRef.current) return;
+    sleepVolumeRef.current = factor;
+    soundRef.current
+      ?.setVolumeAsync(normalizationVolume(track, settingsRef.current.normalization) * factor)
+      .catch(() => {});
+  }
+
+  /** Pauses for the sleep timer and puts the volume back for the next play. */
+  async function stopForSleep() {
+    if (!sleepTimerRef.current) return;
+    sleepTimerRef.current = null;
+    stopFade();
+    bookmarkPosition(true);
+    try {
+      await soundRef.current?.pauseAsync();
+    } catch (e) {
+      console.error('Error pausing for sleep timer:', e);
+    }
+    setIsPlaying(false);
+    clearSleepTimer();
+  }
+
+  function clearSleepTimer() {
+    sleepTimerRef.current = null;
+    setSleepTimerState(null);
+    if (sleepVolumeRef.current !== 1) {
+      sleepVolumeRef.current = 1;
+      const track = currentTrackRef.current;
+      if (track) {
+        soundRef.current
+          ?.setVolumeAsync(normalizationVolume(track, settingsRef.current.normalization))
+          .catch(() => {});
+      }
+    }
+  }
+
+  function setSleepTimer(mode: SleepTimer['mode'], minutes = 30) {
+    const timer: SleepTimer =
+      mode === 'duration' ? { mode, endsAt: Date.now() + minutes * 60 * 1000 }
+      : mode === 'endOfAlbum' && currentTrack ? { mode, album: albumKey(currentTrack) }
+      : { mode: 'endOfTrack' };
+    clearSleepTimer();
+    sleepTimerRef.current = timer;
+    setSleepTimerState(timer);
+  }
+
+  function cancelSleepTimer() {
+    clearSleepTimer();
+  }
+
+  // ── Playback speed ──
+  /** Picks up the remembered speed of a track about to play; returns it. */
+  function applyTrackRate(track: Track): number {
+    const trackRate = rememberedRate(ratesRef.current, track);
+    rateRef.current = trackRate;
+    setRateState(trackRate);
+    return trackRate;
+  }
+
+  /**
+   * Changes the speed of the current track, pitch-corrected, and remembers it
+   * for the track or its album. Normal speed forgets the remembered one.
+   */
+  async function setRate(newRate: number, scope: RateScope = 'track') {
+    const clamped = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, newRate));
+    rateRef.current = clamped;
+    setRateState(clamped);
 
+    if (currentTrack) {
+      const next = { ...ratesRef.current };
+      // One remembered speed per track: a track speed would hide the album's
+      delete next[rateKey(currentTrack, 'track')];
+      if (scope === 'album') delete next[rateKey(currentTrack, 'album')];
+      if (clamped !== 1 || (scope === 'track' && rateScopeFor(next, currentTrack) === 'album')) {
+        next[rateKey(currentTrack, scope)] = clamped;
+      }
+      ratesRef.current = next;
+      setRates(next);
+      saveData(KEYS.PLAYBACK_RATES, next);
+    }
+
+    try {
+      await soundRef.current?.setRateAsync(clamped, true, Audio.PitchCorrectionQuality.High);
+    } catch (e) {
+      console.error('Error setting playback rate:', e);
+    }
+  }
+
+  function setQueueTracks(tracks: Track[]) {
+    queueRef.current = tracks;
+    setQueue(tracks);
+  }
+
+  async function loadAndPlayTrack(track: Track, index: number, startPosition = 0) {
+    const loadId = ++loadIdRef.current;
+    bookmarkPosition(true);
+    // The new sound reports positions before it is current; keep them off the old track
+    soundTrackRef.current = null;
+    endListen('skip');
+    stopFade();
+    if (preloadRef.current?.from !== orderRef.current) discardPreload();
+    if (soundRef.current) {
+      const previous = soundRef.current;
+      soundRef.current = null;
+      await previous.unloadAsync().catch(() => {});
+    }
+    if (loadId !== loadIdRef.current) return;
+
+    if (!track.audioUrl) {
+      await skipUnplayable(track, index, 'noAudio');
+      return;
+    }
+    const trackRate = applyTrackRate(track);
+
+    let sound: Audio.Sound;
+    try {
       // Check for offline version first
       const offlinePath = await getOfflinePath(track.id);
       const audioUri = offlinePath || track.audioUrl;
 
-      const { sound } = await Audio.Sound.createAsync(
+      ({ sound } = await Audio.Sound.createAsync(
         { uri: audioUri },
-        { shouldPlay: true },
+        {
+          shouldPlay: true,
+          positionMillis: startPosition * 1000,
+          volume: normalizationVolume(track, settingsRef.current.normalization) * sleepVolumeRef.current,
+          rate: trackRate,
+          shouldCorrectPitch: true,
+          pitchCorrectionQuality: Audio.PitchCorrectionQuality.High,
+        },
         onPlaybackStatusUpdate
-      );
-      soundRef.current = sound;
-      setCurrentTrack(track);
-      setQueueIndex(index);
-      setIsPlaying(true);
+      ));
     } catch (e) {
       console.error('Error loading track:', e);
-      // Still set the track info even if audio fails
-      setCurrentTrack(track);
-      setQueueIndex(index);
-      setDuration(track.duration);
+      if (loadId === loadIdRef.current) {
+        await skipUnplayable(track, index, 'loadFailed', e instanceof Error ? e.message : String(e));
+      }
+      return;
+    }
+    // Skipped again while this one loaded
+    if (loadId !== loadIdRef.current) {
+      sound.unloadAsync().catch(() => {});
+      return;
+    }
+
+    failuresRef.current = 0;
+    soundRef.current = sound;
+    soundTrackRef.current = track;
+    setCurrentTrack(track);
+    setQueueIndex(index);
+    setIsPlaying(true);
+    clearTrackError(track.id);
+    startListen(track, startPosition);
+    positionRef.current = startPosition;
+    durationRef.current = track.duration;
+    if (startPosition === 0) {
+      offerResume(track);
+    } else {
+      setResumeOffer(null);
     }
   }
 
+  // ── Unplayable tracks ──
+  /**
+   * Shows a track that can't play as current but stopped, reports it, and
+   * moves on to the next track unless the whole queue has failed in a row.
+   */
+  async function skipUnplayable(track: Track, index: number, reason: PlaybackErrorReason, message = '') {
+    setTrackErrors(prev => ({ ...prev, [track.id]: reason }));
+    reportUnplayable(track, reason, message);
+    setCurrentTrack(track);
+    setQueueIndex(index);
+    setPosition(0);
+    setDuration(track.duration);
+    setIsPlaying(false);
+    setResumeOffer(null);
+    positionRef.current = 0;
+    durationRef.current = track.duration;
+
+    failuresRef.current++;
+    const notice: PlaybackNotice = { id: Date.now(), track, reason, skipped: true };
+    setPlaybackNotice(notice);
+    if (failuresRef.current < queueRef.current.length && await playNext()) return;
+    failuresRef.current = 0;
+    setPlaybackNotice(prev => (prev === notice ? { ...notice, skipped: false } : prev));
+  }
+
+  // Once per track and session; the report keeps a count across listeners
+  function reportUnplayable(track: Track, reason: PlaybackErrorReason, message: string) {
+    const userId = userIdRef.current;
+    if (!userId || reportedRef.current.has(track.id)) return;
+    reportedRef.current.add(track.id);
+    reportUnplayableTrack(userId, track, reason, message).catch(e => {
+      console.error('Error reporting unplayable track:', e);
+    });
+  }
+
+  // It played after all, e.g. once downloaded for offline
+  function clearTrackError(trackId: string) {
+    setTrackErrors(prev => {
+      if (!(trackId in prev)) return prev;
+      const { [trackId]: _, ...rest } = prev;
+      return rest;
+    });
+  }
+
+  function dismissPlaybackNotice() {
+    setPlaybackNotice(null);
+  }
+
   async function playTrack(track: Track, trackList?: Track[]) {
     const newQueue = trackList || [track];
-    const index = newQueue.findIndex(t => t.id === track.id);
-    setQueue(newQueue);
-    await loadAndPlayTrack(track, index >= 0 ? index : 0);
+    const index = Math.max(0, newQueue.findIndex(t => t.id === track.id));
+    setQueueTracks(newQueue);
+    orderRef.current = createOrder(newQueue.length, index, shuffle);
+    failuresRef.current = 0;
+    await loadAndPlayTrack(track, index);
   }
 
   async function playQueue(tracks: Track[], startIndex = 0) {
     if (tracks.length === 0) return;
-    setQueue(tracks);
+    setQueueTracks(tracks);
+    orderRef.current = createOrder(tracks.length, startIndex, shuffle);
+    failuresRef.current = 0;
     await loadAndPlayTrack(tracks[startIndex], startIndex);
   }
 
   async function togglePlay() {
     if (!soundRef.current) {
-      setIsPlaying(prev => !prev);
+      // Restored from the last session, or stopped on a track that failed: load it again
+      if (currentTrack) {
+        await loadAndPlayTrack(currentTrack, queueIndex, position);
+      }
       return;
     }
     const status = await soundRef.current.getStatusAsync();
     if (status.isLoaded) {
       if (status.isPlaying) {
+        stopFade();
+        bookmarkPosition(true);
         await soundRef.current.pauseAsync();
       } else {
         await soundRef.current.playAsync();
@@ -186,22 +973,19 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   }
 
   async function nextTrack() {
-    const nextIdx = getNextIndex();
-    if (nextIdx !== -1 && queue[nextIdx]) {
-      await loadAndPlayTrack(queue[nextIdx], nextIdx);
-    }
+    await playNext();
   }
 
   async function previousTrack() {
-    if (position > 3) {
-      // If more than 3 seconds in, restart current track
+    const previous = position > 3 ? null : goBack(orderRef.current);
+    const index = previous ? currentIndex(previous) : -1;
+    if (!previous || !queue[index]) {
+      // More than 3 seconds in, or nothing played before: restart the current track
       await seekTo(0);
       return;
     }
-    const prevIdx = queueIndex - 1;
-    if (prevIdx >= 0 && queue[prevIdx]) {
-      await loadAndPlayTrack(queue[prevIdx], prevIdx);
-    }
+    orderRef.current = previous;
+    await loadAndPlayTrack(queue[index], index);
   }
 
   async function seekTo(pos: number) {
@@ -209,10 +993,14 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
       await soundRef.current.setPositionAsync(pos * 1000);
     }
     setPosition(pos);
+    positionRef.current = pos;
+    setResumeOffer(null);
+    bookmarkPosition(true);
   }
 
   function toggleShuffle() {
-    setShuffle(prev => !prev);
+    orderRef.current = reorder(orderRef.current, queueIndex, !shuffle);
+    setShuffle(!shuffle);
   }
 
   function toggleRepeat() {
@@ -224,21 +1012,64 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
   }
 
   function addToQueue(track: Track) {
-    setQueue(prev => [...prev, track]);
+    orderRef.current = appendToOrder(orderRef.current, queueRef.current.length);
+    setQueueTracks([...queueRef.current, track]);
   }
 
   function removeFromQueue(index: number) {
-    setQueue(prev => prev.filter((_, i) => i !== index));
-    if (index < queueIndex) {
+    const { order, position } = orderRef.current;
+    const skipsCurrent = index === queueIndex && position + 1 < order.length;
+    orderRef.current = removeFromOrder(orderRef.current, index);
+    const remaining = queueRef.current.filter((_, i) => i !== index);
+    setQueueTracks(remaining);
+    if (skipsCurrent) {
+      // Removing the playing track moves on to the one after it
+      const next = currentIndex(orderRef.current);
+      loadAndPlayTrack(remaining[next], next);
+    } else if (index < queueIndex) {
       setQueueIndex(prev => prev - 1);
+    } else if (index === queueIndex) {
+      // Nothing plays after it: stop on the new last track instead of playing a removed one
+      const next = currentIndex(orderRef.current);
+      stopOnTrack(remaining[next] ?? null, Math.max(0, next));
     }
   }
 
+  /** Unloads the playing sound and shows `track` as current, stopped at its start. */
+  async function stopOnTrack(track: Track | null, index: number) {
+    loadIdRef.current++;
+    bookmarkPosition(true);
+    soundTrackRef.current = null;
+    endListen('skip');
+    stopFade();
+    discardPreload();
+    const previous = soundRef.current;
+    soundRef.current = null;
+    setCurrentTrack(track);
+    setQueueIndex(index);
+    setPosition(0);
+    setDuration(track?.duration ?? 0);
+    setIsPlaying(false);
+    setResumeOffer(null);
+    positionRef.current = 0;
+    durationRef.current = track?.duration ?? 0;
+    await previous?.unloadAsync().catch(() => {});
+  }
+
   function clearQueue() {
-    setQueue(currentTrack ? [currentTrack] : []);
+    setQueueTracks(currentTrack ? [currentTrack] : []);
+    orderRef.current = createOrder(currentTrack ? 1 : 0, 0, shuffle);
     setQueueIndex(0);
   }
 
+  function updateSettings(updates: Partial<PlayerSettings>) {
+    setSettings(prev => {
+      const next = { ...prev, ...updates };
+      saveData(KEYS.PLAYER_SETTINGS, next);
+      return next;
+    });
+  }
+
   return (
     <PlayerContext.Provider
       value={{
@@ -261,6 +1092,21 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         addToQueue,
         removeFromQueue,
         clearQueue,
+        settings,
+        updateSettings,
+        sleepTimer,
+        sleepRemaining: sleepTimer ? Math.max(0, sleepSecondsLeft(sleepTimer, position, duration)) : null,
+        setSleepTimer,
+        cancelSleepTimer,
+        rate,
+        rateScope: currentTrack ? rateScopeFor(rates, currentTrack) : null,
+        setRate,
+        resumeOffer,
+        acceptResume,
+        dismissResume,
+        trackErrors,
+        playbackNotice,
+        dismissPlaybackNotice,
       }}
     >
       {children}
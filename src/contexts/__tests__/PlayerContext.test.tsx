@@ -0,0 +1,285 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { create, act, ReactTestRenderer } from 'react-test-renderer';
+import type { AVPlaybackStatus, AVPlaybackStatusToSet } from 'expo-av';
+import { PlayerProvider, usePlayer } from '../PlayerContext';
+import { createMockMediaSession, MockMediaSession } from '../../services/mediaSessionMock';
+import { Track } from '../../types';
+
+type StatusListener = ((status: AVPlaybackStatus) => void) | null;
+
+/** Stands in for expo-av's `Audio.Sound`: plays instantly and reports each change. */
+class FakeSound {
+  static created: FakeSound[] = [];
+
+  playing = false;
+  unloaded = false;
+  positionMillis = 0;
+
+  constructor(readonly uri: string, private listener: StatusListener) {
+    FakeSound.created.push(this);
+  }
+
+  private status(): AVPlaybackStatus {
+    return {
+      isLoaded: true,
+      isPlaying: this.playing,
+      positionMillis: this.positionMillis,
+      durationMillis: 200000,
+      volume: 1,
+    } as AVPlaybackStatus;
+  }
+
+  private report() {
+    this.listener?.(this.status());
+  }
+
+  setOnPlaybackStatusUpdate(listener: StatusListener) {
+    this.listener = listener;
+  }
+  async getStatusAsync() {
+    return this.status();
+  }
+  async playAsync() {
+    this.playing = true;
+    this.report();
+  }
+  async pauseAsync() {
+    this.playing = false;
+    this.report();
+  }
+  async setPositionAsync(millis: number) {
+    this.positionMillis = millis;
+    this.report();
+  }
+  async unloadAsync() {
+    this.playing = false;
+    this.unloaded = true;
+  }
+  async replayAsync() {}
+  async setVolumeAsync() {}
+  async setRateAsync() {}
+}
+
+vi.mock('expo-av', () => ({
+  Audio: {
+    setAudioModeAsync: async () => {},
+    PitchCorrectionQuality: { High: 'High' },
+    Sound: {
+      createAsync: async ({ uri }: { uri: string }, initial: AVPlaybackStatusToSet, listener?: StatusListener) => {
+        const sound = new FakeSound(uri, listener ?? null);
+        if (initial.shouldPlay) await sound.playAsync();
+        return { sound, status: await sound.getStatusAsync() };
+      },
+    },
+  },
+}));
+
+vi.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+  PixelRatio: { getPixelSizeForLayoutSize: (size: number) => size * 2 },
+}));
+vi.mock('expo-media-control', () => ({ default: {}, Command: {}, PlaybackState: {} }));
+
+vi.mock('../AuthContext', () => ({ useAuth: () => ({ user: null }) }));
+vi.mock('../../services/storage', () => ({
+  KEYS: { QUEUE: 'queue', PLAYBACK_RATES: 'rates', PLAYER_SETTINGS: 'settings' },
+  loadData: async () => null,
+  saveData: async () => {},
+}));
+vi.mock('../../services/offlineStorage', () => ({ getOfflinePath: async () => null }));
+vi.mock('../../services/history', () => ({
+  recordHistoryEntry: () => {},
+  getHistory: async () => [],
+  recentTrackIds: () => [],
+}));
+vi.mock('../../services/firestore', () => ({ reportUnplayableTrack: async () => {} }));
+vi.mock('../../services/radio', () => ({ getRadioTracks: async () => [] }));
+vi.mock('../../services/positions', () => ({
+  isResumable: () => false,
+  resumePosition: () => null,
+  saveResumePosition: () => {},
+  getResumePosition: async () => null,
+}));
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+function track(n: number): Track {
+  return {
+    id: `t${n}`,
+    title: `Track ${n}`,
+    artist: 'Static Harbor',
+    album: 'Breakwater',
+    duration: 200,
+    artwork: `https://example.com/t${n}.jpg`,
+    audioUrl: `https://example.com/t${n}.mp3`,
+    isLocal: false,
+    genre: 'post-rock',
+    license: 'https://creativecommons.org/licenses/by-sa/4.0/',
+  };
+}
+
+const TRACKS = [track(1), track(2), track(3)];
+
+let player: ReturnType<typeof usePlayer>;
+
+function Probe() {
+  player = usePlayer();
+  return null;
+}
+
+/** Runs `fn` and lets the state updates and async work it starts settle. */
+async function settle(fn: () => unknown = () => {}) {
+  await act(async () => {
+    await fn();
+  });
+}
+
+function playing(): FakeSound | undefined {
+  return FakeSound.created.filter(s => !s.unloaded).at(-1);
+}
+
+async function mount(session: MockMediaSession): Promise<ReactTestRenderer> {
+  FakeSound.created = [];
+  let renderer!: ReactTestRenderer;
+  await settle(() => {
+    renderer = create(
+      <PlayerProvider mediaSession={session}>
+        <Probe />
+      </PlayerProvider>
+    );
+  });
+  return renderer;
+}
+
+describe('PlayerProvider with a media session', () => {
+  let session: MockMediaSession;
+  let renderer: ReactTestRenderer;
+
+  beforeEach(async () => {
+    session = createMockMediaSession();
+    renderer = await mount(session);
+  });
+
+  afterEach(async () => {
+    await settle(() => renderer.unmount());
+  });
+
+  it('publishes the current track and updates it on track change', async () => {
+    expect(session.state.nowPlaying).toBeNull();
+    expect(session.state.playbackState).toBe('none');
+
+    await settle(() => player.playQueue(TRACKS, 0));
+    expect(session.state.nowPlaying).toEqual({
+      title: 'Track 1',
+      artist: 'Static Harbor',
+      album: 'Breakwater',
+      artwork: 'https://example.com/t1.jpg',
+    });
+    expect(session.state.playbackState).toBe('playing');
+
+    await settle(() => player.nextTrack());
+    expect(session.state.nowPlaying?.title).toBe('Track 2');
+  });
+
+  it('routes remote play and pause to the player', async () => {
+    await settle(() => player.playQueue(TRACKS, 0));
+
+    await settle(() => session.send({ type: 'pause' }));
+    expect(playing()?.playing).toBe(false);
+    expect(player.isPlaying).toBe(false);
+    expect(session.state.playbackState).toBe('paused');
+
+    // Already paused: a second pause doesn't toggle back
+    await settle(() => session.send({ type: 'pause' }));
+    expect(player.isPlaying).toBe(false);
+
+    await settle(() => session.send({ type: 'play' }));
+    expect(playing()?.playing).toBe(true);
+    expect(session.state.playbackState).toBe('playing');
+  });
+
+  it('routes remote next, previous and seek to the player', async () => {
+    await settle(() => player.playQueue(TRACKS, 0));
+
+    await settle(() => session.send({ type: 'next' }));
+    expect(player.currentTrack?.id).toBe('t2');
+    expect(playing()?.uri).toBe('https://example.com/t2.mp3');
+
+    await settle(() => session.send({ type: 'previous' }));
+    expect(player.currentTrack?.id).toBe('t1');
+
+    await settle(() => session.send({ type: 'seekTo', seconds: 42 }));
+    expect(playing()?.positionMillis).toBe(42000);
+    expect(session.state.position).toBe(42);
+  });
+
+  it('clears the session when the provider unmounts', async () => {
+    await settle(() => player.playQueue(TRACKS, 0));
+    await settle(() => renderer.unmount());
+    expect(session.state.nowPlaying).toBeNull();
+    expect(session.send({ type: 'play' })).toBe(false);
+  });
+});
+
+describe('PlayerProvider queue', () => {
+  let session: MockMediaSession;
+  let renderer: ReactTestRenderer;
+
+  beforeEach(async () => {
+    session = createMockMediaSession();
+    renderer = await mount(session);
+  });
+
+  afterEach(async () => {
+    await settle(() => renderer.unmount());
+  });
+
+  it('moves on when the playing track is removed', async () => {
+    await settle(() => player.playQueue(TRACKS, 1));
+
+    await settle(() => player.removeFromQueue(1));
+    expect(player.queue.map(t => t.id)).toEqual(['t1', 't3']);
+    expect(player.currentTrack?.id).toBe('t3');
+    expect(player.queueIndex).toBe(1);
+    expect(playing()?.uri).toBe('https://example.com/t3.mp3');
+  });
+
+  it('stops on the new last track when the playing one was last', async () => {
+    await settle(() => player.playQueue(TRACKS, 2));
+
+    await settle(() => player.removeFromQueue(2));
+    expect(player.queue.map(t => t.id)).toEqual(['t1', 't2']);
+    expect(player.currentTrack?.id).toBe('t2');
+    expect(player.queueIndex).toBe(1);
+    expect(player.isPlaying).toBe(false);
+    expect(playing()).toBeUndefined();
+    expect(session.state.nowPlaying?.title).toBe('Track 2');
+
+    await settle(() => player.togglePlay());
+    expect(playing()?.uri).toBe('https://example.com/t2.mp3');
+    expect(player.isPlaying).toBe(true);
+  });
+
+  it('stops with nothing current when the only track is removed', async () => {
+    await settle(() => player.playQueue([track(1)], 0));
+
+    await settle(() => player.removeFromQueue(0));
+    expect(player.queue).toEqual([]);
+    expect(player.currentTrack).toBeNull();
+    expect(playing()).toBeUndefined();
+  });
+
+  it('keeps shuffling after the queue is cleared', async () => {
+    await settle(() => player.playQueue(TRACKS, 0));
+    await settle(() => player.toggleShuffle());
+
+    await settle(() => player.clearQueue());
+    expect(player.shuffle).toBe(true);
+    expect(player.queue.map(t => t.id)).toEqual(['t1']);
+
+    await settle(() => player.addToQueue(track(4)));
+    await settle(() => player.nextTrack());
+    expect(player.currentTrack?.id).toBe('t4');
+  });
+});
@@ -59,10 +59,11 @@ export const translations = {
   'upload.coverSelected': { pt: 'Capa selecionada', en: 'Cover selected' },
   'upload.addCover': { pt: 'Adicionar capa (opcional)', en: 'Add cover (optional)' },
   'upload.tapToChoose': { pt: 'Toque para escolher uma imagem', en: 'Tap to choose an image' },
-  'upload.copyleftNotice': {
-    pt: 'Ao enviar, sua música será compartilhada com toda a comunidade sob licença Copyleft.',
-    en: 'By submitting, your music will be shared with the entire community under Copyleft license.',
+  'upload.licenseNotice': {
+    pt: 'Ao enviar, suas músicas serão compartilhadas com toda a comunidade sob a licença',
+    en: 'By submitting, your music will be shared with the entire community under',
   },
+  'upload.removeTrack': { pt: 'Remover música', en: 'Remove track' },
   'upload.cancel': { pt: 'Cancelar', en: 'Cancel' },
   'upload.send': { pt: 'Enviar', en: 'Submit' },
   'upload.success': { pt: 'Música Compartilhada!', en: 'Music Shared!' },
@@ -111,6 +112,8 @@ export const translations = {
   'artist.albums': { pt: 'Álbuns', en: 'Albums' },
   'artist.tracks': { pt: 'Todas as Faixas', en: 'All Tracks' },
   'artist.songs': { pt: 'músicas', en: 'songs' },
+  'artist.popular': { pt: 'Populares', en: 'Popular' },
+  'artist.monthlyListeners': { pt: 'ouvintes mensais', en: 'monthly listeners' },
 
   // ===== Album CRUD =====
   'album.editTitle': { pt: 'Editar Álbum', en: 'Edit Album' },
@@ -155,6 +158,7 @@ export const translations = {
   'library.playlist': { pt: 'Playlist', en: 'Playlist' },
   'library.errorCreate': { pt: 'Não foi possível criar a playlist. Tente novamente.', en: 'Could not create playlist. Try again.' },
   'library.errorName': { pt: 'Digite um nome para a playlist', en: 'Enter a playlist name' },
+  'library.removeFromPlaylist': { pt: 'Remover da playlist', en: 'Remove from playlist' },
 
   // ===== Profile extras =====
   'profile.logoutConfirm': { pt: 'Deseja sair da sua conta?', en: 'Do you want to sign out?' },
@@ -162,6 +166,115 @@ export const translations = {
   'profile.settings': { pt: 'Configurações', en: 'Settings' },
   'profile.account': { pt: 'Conta', en: 'Account' },
   'profile.version': { pt: 'Versão', en: 'Version' },
+  'profile.normalization': { pt: 'Normalizar volume', en: 'Normalize volume' },
+  'profile.normalizationOff': { pt: 'Não', en: 'Off' },
+  'profile.normalizationTrack': { pt: 'Faixa', en: 'Track' },
+  'profile.normalizationAlbum': { pt: 'Álbum', en: 'Album' },
+  'profile.crossfade': { pt: 'Crossfade', en: 'Crossfade' },
+  'profile.crossfadeGapless': { pt: 'Sem pausa entre faixas', en: 'No gap between tracks' },
+  'profile.crossfadeHint': { pt: 'Mistura o fim de uma faixa com a próxima', en: 'Blends the end of a track into the next' },
+  'profile.autoplay': { pt: 'Reprodução automática', en: 'Autoplay' },
+  'profile.autoplayHint': {
+    pt: 'Continua com músicas parecidas quando a fila acaba',
+    en: 'Keeps playing similar tracks when the queue ends',
+  },
+
+  // ===== License =====
+  'license.title': { pt: 'Licença', en: 'License' },
+  'license.view': { pt: 'Ver licença', en: 'View license' },
+  'license.openFull': { pt: 'Ver licença completa', en: 'View full license' },
+  'license.close': { pt: 'Fechar', en: 'Close' },
+  'license.by': { pt: 'de', en: 'by' },
+  'license.licensedUnder': { pt: 'licenciada sob', en: 'licensed under' },
+  'license.attribution': { pt: 'Exige crédito ao artista', en: 'Credit to the artist required' },
+  'license.noAttribution': { pt: 'Crédito não obrigatório', en: 'No credit required' },
+  'license.commercialAllowed': { pt: 'Uso comercial permitido', en: 'Commercial use allowed' },
+  'license.commercialForbidden': { pt: 'Uso comercial não permitido', en: 'No commercial use' },
+  'license.remixAllowed': { pt: 'Remixes e adaptações permitidos', en: 'Remixes and adaptations allowed' },
+  'license.remixForbidden': { pt: 'Sem obras derivadas', en: 'No derivative works' },
+  'license.shareAlike': { pt: 'Derivados devem usar a mesma licença', en: 'Derivatives must use the same license' },
+  'license.unknown': {
+    pt: 'Não reconhecemos os termos desta licença. Confira a fonte original antes de reutilizar.',
+    en: "We don't recognize this license's terms. Check the original source before reusing.",
+  },
+  'license.filterCommercial': { pt: 'Uso comercial', en: 'Commercial use' },
+  'license.filterRemix': { pt: 'Permite remix', en: 'Allows remixing' },
+  'license.filterNoShareAlike': { pt: 'Sem ShareAlike', en: 'No ShareAlike' },
+  'license.noMatches': { pt: 'Nenhuma faixa com esses termos de licença', en: 'No tracks match these license terms' },
+  'license.choose': { pt: 'Escolher licença', en: 'Choose license' },
+  'license.required': { pt: 'Escolha uma licença para suas músicas', en: 'Choose a license for your music' },
+  'license.save': { pt: 'Salvar', en: 'Save' },
+  'license.saveFailed': { pt: 'Não foi possível salvar a licença.', en: "Couldn't save the license." },
+
+  // ===== Track / remix lineage =====
+  'track.view': { pt: 'Ver faixa', en: 'View track' },
+  'track.notFound': { pt: 'Faixa não encontrada', en: 'Track not found' },
+  'track.builtOn': { pt: 'Construída sobre', en: 'Built on' },
+  'track.remixes': { pt: 'Remixes desta faixa', en: 'Remixes of this' },
+  'artist.builtOn': { pt: 'Construído sobre', en: 'Built on' },
+  'artist.remixes': { pt: 'Remixes de outros artistas', en: 'Remixes by others' },
+  'derivation.remix': { pt: 'Remix', en: 'Remix' },
+  'derivation.sample': { pt: 'Sample', en: 'Sample' },
+  'derivation.cover': { pt: 'Versão', en: 'Cover' },
+  'derivation.stem': { pt: 'Stem', en: 'Stem' },
+  'derivation.basedOn': { pt: 'Baseada em outras faixas (opcional)', en: 'Based on other tracks (optional)' },
+  'derivation.searchSource': {
+    pt: 'Buscar faixa original (remix, sample, versão...)',
+    en: 'Search for the original track (remix, sample, cover...)',
+  },
+  'derivation.conflictTitle': { pt: 'Licença incompatível', en: 'Incompatible license' },
+  'derivation.conflictUnknown': {
+    pt: 'licença não reconhecida; só pode ser usada depois de ter uma licença',
+    en: "unrecognized license; it can't be used until it has one",
+  },
+  'derivation.conflictNoDerivatives': { pt: 'não permite obras derivadas (ND)', en: "doesn't allow derivative works (ND)" },
+  'derivation.conflictShareAlike': {
+    pt: 'exige que derivados usem a mesma licença (ShareAlike)',
+    en: 'requires derivatives to use the same license (ShareAlike)',
+  },
+  'derivation.conflictNonCommercial': { pt: 'não permite uso comercial (NC)', en: "doesn't allow commercial use (NC)" },
+
+  // ===== Playback speed =====
+  'rate.title': { pt: 'Velocidade', en: 'Playback speed' },
+  'rate.hint': { pt: 'O tom é mantido em qualquer velocidade', en: 'Pitch stays the same at any speed' },
+  'rate.rememberFor': { pt: 'Lembrar para', en: 'Remember for' },
+  'rate.track': { pt: 'Faixa', en: 'Track' },
+  'rate.album': { pt: 'Álbum', en: 'Album' },
+
+  // ===== Resume =====
+  'resume.from': { pt: 'Continuar de', en: 'Resume from' },
+
+  // ===== Playback errors =====
+  'playback.noAudio': { pt: 'Faixa sem áudio', en: 'This track has no audio' },
+  'playback.loadFailed': { pt: 'Não foi possível tocar', en: "Couldn't play this track" },
+  'playback.skipping': { pt: 'Pulando para a próxima', en: 'Skipping to the next one' },
+  'playback.stopped': { pt: 'Nada mais para tocar', en: 'Nothing else to play' },
+  'playback.autoplay': { pt: 'Reprodução automática', en: 'Autoplay' },
+
+  // ===== Sleep timer =====
+  'sleep.title': { pt: 'Timer para dormir', en: 'Sleep timer' },
+  'sleep.minutes': { pt: 'minutos', en: 'minutes' },
+  'sleep.endOfTrack': { pt: 'Fim da faixa', en: 'End of track' },
+  'sleep.endOfAlbum': { pt: 'Fim do álbum', en: 'End of album' },
+  'sleep.cancel': { pt: 'Desligar timer', en: 'Turn off timer' },
+  'sleep.stopsIn': { pt: 'A música para em', en: 'Music stops in' },
+
+  // ===== History =====
+  'history.title': { pt: 'Tocadas recentemente', en: 'Recently played' },
+  'history.empty': { pt: 'Nada tocado ainda', en: 'Nothing played yet' },
+  'history.clear': { pt: 'Limpar histórico', en: 'Clear history' },
+  'history.clearConfirm': { pt: 'Apagar todo o seu histórico de reprodução?', en: 'Delete your whole listening history?' },
+  'history.skipped': { pt: 'pulada', en: 'skipped' },
+
+  // ===== Credits =====
+  'credits.export': { pt: 'Exportar créditos', en: 'Export credits' },
+  'credits.title': { pt: 'Créditos', en: 'Credits' },
+  'credits.hint': {
+    pt: 'Ao reutilizar estas músicas, credite os artistas com o texto abaixo.',
+    en: 'When reusing these tracks, credit the artists with the text below.',
+  },
+  'credits.text': { pt: 'Texto', en: 'Text' },
+  'credits.share': { pt: 'Compartilhar', en: 'Share' },
 
   // ===== Common =====
   'common.error': { pt: 'Erro', en: 'Error' },
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { MediaControlEvent, MediaControlEventListener } from 'expo-media-control';
+import {
+  createWebMediaSession,
+  createNativeMediaSession,
+  MediaSessionHandlers,
+  WebMediaSession,
+  NativeMediaControl,
+} from '../mediaSession';
+
+vi.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+
+// The parts of expo-media-control the adapter uses, with the module's values
+vi.mock('expo-media-control', () => ({
+  default: {},
+  Command: {
+    PLAY: 'play',
+    PAUSE: 'pause',
+    STOP: 'stop',
+    NEXT_TRACK: 'nextTrack',
+    PREVIOUS_TRACK: 'previousTrack',
+    SKIP_FORWARD: 'skipForward',
+    SKIP_BACKWARD: 'skipBackward',
+    SEEK: 'seek',
+  },
+  PlaybackState: { NONE: 0, STOPPED: 1, PLAYING: 2, PAUSED: 3 },
+}));
+
+const NOW_PLAYING = {
+  title: 'Low Tide',
+  artist: 'Static Harbor',
+  album: 'Breakwater',
+  artwork: 'https://example.com/low-tide.jpg',
+};
+
+function fakeHandlers(): MediaSessionHandlers {
+  return { play: vi.fn(), pause: vi.fn(), next: vi.fn(), previous: vi.fn(), seekTo: vi.fn() };
+}
+
+// Lets the adapter's queued native calls run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createWebMediaSession', () => {
+  class FakeMediaMetadata {
+    constructor(init: object) {
+      Object.assign(this, init);
+    }
+  }
+
+  interface FakeSession extends WebMediaSession {
+    actions: Map<MediaSessionAction, MediaSessionActionHandler>;
+    setPositionState: ReturnType<typeof vi.fn<(state?: MediaPositionState) => void>>;
+  }
+
+  function fakeSession(): FakeSession {
+    const actions = new Map<MediaSessionAction, MediaSessionActionHandler>();
+    return {
+      actions,
+      metadata: null,
+      playbackState: 'none',
+      setPositionState: vi.fn<(state?: MediaPositionState) => void>(),
+      setActionHandler(action, handler) {
+        if (handler) actions.set(action, handler);
+        else actions.delete(action);
+      },
+    };
+  }
+
+  function press(session: FakeSession, action: MediaSessionAction, details: Partial<MediaSessionActionDetails> = {}) {
+    session.actions.get(action)!({ action, ...details });
+  }
+
+  beforeEach(() => vi.stubGlobal('MediaMetadata', FakeMediaMetadata));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('publishes metadata and playback state', () => {
+    const session = fakeSession();
+    const adapter = createWebMediaSession(session);
+
+    adapter.setMetadata(NOW_PLAYING);
+    adapter.setPlaybackState('playing');
+    expect(session.metadata).toMatchObject({
+      title: 'Low Tide',
+      artist: 'Static Harbor',
+      artwork: [{ src: NOW_PLAYING.artwork }],
+    });
+    expect(session.playbackState).toBe('playing');
+
+    adapter.setMetadata(null);
+    expect(session.metadata).toBeNull();
+  });
+
+  it('clamps the position and skips it until the duration is known', () => {
+    const session = fakeSession();
+    const adapter = createWebMediaSession(session);
+
+    adapter.setPosition(3, 0, 1);
+    expect(session.setPositionState).not.toHaveBeenCalled();
+    adapter.setPosition(250, 245, 1);
+    expect(session.setPositionState).toHaveBeenCalledWith({ duration: 245, position: 245, playbackRate: 1 });
+  });
+
+  it('routes media keys to the handlers and clears them', () => {
+    const session = fakeSession();
+    const adapter = createWebMediaSession(session);
+    const handlers = fakeHandlers();
+
+    adapter.setHandlers(handlers);
+    adapter.setPosition(100, 245, 1);
+    press(session, 'play');
+    press(session, 'nexttrack');
+    press(session, 'seekto', { seekTime: 42 });
+    press(session, 'seekforward');
+    press(session, 'seekbackward', { seekOffset: 200 });
+    expect(handlers.play).toHaveBeenCalled();
+    expect(handlers.next).toHaveBeenCalled();
+    expect(vi.mocked(handlers.seekTo).mock.calls).toEqual([[42], [110], [0]]);
+
+    adapter.setHandlers(null);
+    expect(session.actions.size).toBe(0);
+  });
+});
+
+describe('createNativeMediaSession', () => {
+  type Mocked<T> = { [K in keyof T]: T[K] & ReturnType<typeof vi.fn> };
+
+  interface FakeControl extends Mocked<NativeMediaControl> {
+    /** Simulates a command from the lock screen or notification. */
+    send: (command: string, data?: MediaControlEvent['data']) => void;
+  }
+
+  function fakeControl(): FakeControl {
+    const listeners: MediaControlEventListener[] = [];
+    return {
+      send: (command, data) =>
+        listeners.forEach(l => l({ command: command as MediaControlEvent['command'], data, timestamp: 0 })),
+      enableMediaControls: vi.fn(async () => {}),
+      updateMetadata: vi.fn(async () => {}),
+      updatePlaybackState: vi.fn(async () => {}),
+      resetControls: vi.fn(async () => {}),
+      addListener: vi.fn((listener: MediaControlEventListener) => {
+        listeners.push(listener);
+        return () => {};
+      }),
+    };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('enables the controls once, on the first track', async () => {
+    const control = fakeControl();
+    const adapter = createNativeMediaSession(control);
+
+    adapter.setHandlers(fakeHandlers());
+    adapter.setPlaybackState('paused');
+    await flush();
+    expect(control.enableMediaControls).not.toHaveBeenCalled();
+
+    adapter.setMetadata(NOW_PLAYING);
+    adapter.setMetadata({ ...NOW_PLAYING, title: 'Rust Belt' });
+    await flush();
+    expect(control.enableMediaControls).toHaveBeenCalledTimes(1);
+    expect(control.addListener).toHaveBeenCalledTimes(1);
+    expect(control.updateMetadata).toHaveBeenLastCalledWith({
+      title: 'Rust Belt',
+      artist: 'Static Harbor',
+      album: 'Breakwater',
+      artwork: { uri: NOW_PLAYING.artwork },
+      duration: undefined,
+    });
+  });
+
+  it('sends the duration with the metadata once it is known', async () => {
+    const control = fakeControl();
+    const adapter = createNativeMediaSession(control);
+
+    adapter.setMetadata(NOW_PLAYING);
+    adapter.setPosition(0, 245, 1);
+    await flush();
+    expect(control.updateMetadata).toHaveBeenLastCalledWith(expect.objectContaining({ duration: 245 }));
+  });
+
+  it('maps playback states and sends no rate while paused', async () => {
+    const control = fakeControl();
+    const adapter = createNativeMediaSession(control);
+
+    adapter.setMetadata(NOW_PLAYING);
+    adapter.setPosition(12, 245, 1.5);
+    adapter.setPlaybackState('playing');
+    adapter.setPlaybackState('paused');
+    await flush();
+    expect(control.updatePlaybackState.mock.calls.slice(-2)).toEqual([[2, 12, 1.5], [3, 12, 0]]);
+  });
+
+  it('only resyncs the position when it drifts from what the OS extrapolates', async () => {
+    const control = fakeControl();
+    const adapter = createNativeMediaSession(control);
+
+    adapter.setMetadata(NOW_PLAYING);
+    adapter.setPlaybackState('playing');
+    adapter.setPosition(0, 245, 1);
+    await flush();
+    const sent = control.updatePlaybackState.mock.calls.length;
+
+    vi.setSystemTime(5000);
+    adapter.setPosition(5, 245, 1);
+    await flush();
+    expect(control.updatePlaybackState).toHaveBeenCalledTimes(sent);
+
+    // A seek
+    adapter.setPosition(60, 245, 1);
+    await flush();
+    expect(control.updatePlaybackState).toHaveBeenCalledTimes(sent + 1);
+    expect(control.updatePlaybackState).toHaveBeenLastCalledWith(2, 60, 1);
+  });
+
+  it('routes remote commands to the current handlers', () => {
+    const control = fakeControl();
+    const adapter = createNativeMediaSession(control);
+    const handlers = fakeHandlers();
+
+    adapter.setHandlers(handlers);
+    adapter.setMetadata(NOW_PLAYING);
+    adapter.setPosition(100, 245, 1);
+    control.send('play');
+    control.send('stop');
+    control.send('previousTrack');
+    control.send('seek', { position: 42 });
+    control.send('skipForward', { interval: 15 });
+    control.send('skipBackward');
+    expect(handlers.play).toHaveBeenCalled();
+    expect(handlers.pause).toHaveBeenCalled();
+    expect(handlers.previous).toHaveBeenCalled();
+    expect(vi.mocked(handlers.seekTo).mock.calls).toEqual([[42], [115], [90]]);
+
+    adapter.setHandlers(null);
+    control.send('next');
+    expect(handlers.next).not.toHaveBeenCalled();
+  });
+
+  it('resets the controls when playback ends and logs native failures', async () => {
+    const control = fakeControl();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    control.updateMetadata.mockRejectedValueOnce(new Error('not enabled'));
+    const adapter = createNativeMediaSession(control);
+
+    adapter.setMetadata(NOW_PLAYING);
+    adapter.setMetadata(null);
+    await flush();
+    expect(error).toHaveBeenCalledWith('Error updating media controls:', expect.any(Error));
+    expect(control.resetControls).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
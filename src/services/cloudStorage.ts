@@ -1,5 +1,8 @@
 import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import * as ImageManipulator from 'expo-image-manipulator';
 import { storage } from './firebase';
+import { ArtworkVariants } from '../types';
+import { ARTWORK_SIZES } from '../utils/artwork';
 
 export interface UploadProgress {
   bytesTransferred: number;
@@ -47,20 +50,50 @@ export async function uploadMusicFile(
   });
 }
 
+export interface UploadedCover {
+  url: string;
+  variants: ArtworkVariants;
+}
+
 /**
- * Upload a playlist cover image to Firebase Storage
+ * Upload a playlist cover image to Firebase Storage, plus resized variants
+ * (see ARTWORK_SIZES) for list rows and cards
  */
 export async function uploadPlaylistCover(
   userId: string,
   fileUri: string
-): Promise<string> {
-  const storageRef = ref(storage, `covers/${userId}/${Date.now()}.jpg`);
+): Promise<UploadedCover> {
+  const basePath = `covers/${userId}/${Date.now()}`;
+  const url = await uploadImage(`${basePath}.jpg`, fileUri);
+
+  const variants: ArtworkVariants = {};
+  const original = await ImageManipulator.manipulateAsync(fileUri, []);
+  for (const size of ARTWORK_SIZES) {
+    if (size >= original.width) break; // never upscale
+    try {
+      const resized = await ImageManipulator.manipulateAsync(
+        fileUri,
+        [{ resize: { width: size } }],
+        { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      variants[size] = await uploadImage(`${basePath}_${size}.jpg`, resized.uri);
+    } catch (e) {
+      // The full-size cover still works; this size just won't be used
+      console.error(`Cover variant ${size} error:`, e);
+    }
+  }
+
+  return { url, variants };
+}
+
+async function uploadImage(path: string, fileUri: string): Promise<string> {
+  const storageRef = ref(storage, path);
 
   const response = await fetch(fileUri);
   const blob = await response.blob();
 
   return new Promise((resolve, reject) => {
-    const uploadTask = uploadBytesResumable(storageRef, blob);
+    const uploadTask = uploadBytesResumable(storageRef, blob, { contentType: 'image/jpeg' });
 
     uploadTask.on(
       'state_changed',
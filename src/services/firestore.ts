@@ -13,13 +13,26 @@ import {
   addDoc,
   arrayUnion,
   arrayRemove,
+  increment,
   serverTimestamp,
   Timestamp,
   onSnapshot,
   QueryConstraint,
+  writeBatch,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { Playlist, Track, User } from '../types';
+import {
+  Playlist,
+  Track,
+  User,
+  HistoryEntry,
+  Artist,
+  PlayWindow,
+  ResumePosition,
+  PlaybackErrorReason,
+  LicenseInfo,
+} from '../types';
+import { parseLicense } from '../utils/license';
 
 // ============================================================
 // USERS
@@ -85,6 +98,20 @@ export async function getPublicPlaylists(limitCount = 20): Promise<Playlist[]> {
     .slice(0, limitCount);
 }
 
+/** Public playlists containing any of `trackIds`. */
+export async function getPublicPlaylistsWith(trackIds: string[], limitCount = 20): Promise<Playlist[]> {
+  if (trackIds.length === 0) return [];
+  const q = query(
+    collection(db, 'playlists'),
+    where('isPublic', '==', true),
+    // 'array-contains-any' supports max 30 values
+    where('trackIds', 'array-contains-any', trackIds.slice(0, 30)),
+    limit(limitCount)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map(d => docToPlaylist(d.id, d.data()));
+}
+
 export async function updatePlaylist(playlistId: string, updates: Partial<Playlist>): Promise<void> {
   await updateDoc(doc(db, 'playlists', playlistId), {
     ...updates,
@@ -189,6 +216,42 @@ export async function getTracksByArtist(artistName: string): Promise<Track[]> {
     .sort((a, b) => (a.album || '').localeCompare(b.album || ''));
 }
 
+/** Tracks that declare any of `trackIds` in their `derivedFrom`. */
+export async function getDerivativesOf(trackIds: string[]): Promise<Track[]> {
+  if (trackIds.length === 0) return [];
+  const results = new Map<string, Track>();
+  // 'array-contains-any' supports max 30 values per query
+  for (let i = 0; i < trackIds.length; i += 30) {
+    const batch = trackIds.slice(i, i + 30);
+    const q = query(collection(db, 'tracks'), where('derivedFromIds', 'array-contains-any', batch));
+    const snap = await getDocs(q);
+    for (const d of snap.docs) {
+      results.set(d.id, docToTrack(d.id, d.data()));
+    }
+  }
+  return [...results.values()];
+}
+
+export async function getTracksByGenre(genre: string, limitCount = 30): Promise<Track[]> {
+  const q = query(collection(db, 'tracks'), where('genre', '==', genre), limit(limitCount));
+  const snap = await getDocs(q);
+  return snap.docs.map(d => docToTrack(d.id, d.data()));
+}
+
+/** Tracks under the same license terms (any version or port), e.g. every CC BY-SA. */
+export async function getTracksByLicenseTerms(info: LicenseInfo, limitCount = 30): Promise<Track[]> {
+  const q = query(
+    collection(db, 'tracks'),
+    where('licenseInfo.attribution', '==', info.attribution),
+    where('licenseInfo.shareAlike', '==', info.shareAlike),
+    where('licenseInfo.nonCommercial', '==', info.nonCommercial),
+    where('licenseInfo.noDerivatives', '==', info.noDerivatives),
+    limit(limitCount)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map(d => docToTrack(d.id, d.data()));
+}
+
 // ============================================================
 // LIKED TRACKS
 // ============================================================
@@ -213,6 +276,110 @@ export async function isTrackLiked(userId: string, trackId: string): Promise<boo
   return snap.exists();
 }
 
+// ============================================================
+// LISTENING HISTORY
+// ============================================================
+export async function saveHistoryEntry(userId: string, entry: HistoryEntry): Promise<void> {
+  await setDoc(doc(db, 'users', userId, 'history', entry.id), entry);
+}
+
+export async function getHistoryEntries(userId: string, limitCount = 100): Promise<HistoryEntry[]> {
+  const q = query(
+    collection(db, 'users', userId, 'history'),
+    orderBy('startedAt', 'desc'),
+    limit(limitCount)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map(d => ({ ...(d.data() as HistoryEntry), id: d.id }));
+}
+
+export async function deleteHistoryEntry(userId: string, entryId: string): Promise<void> {
+  await deleteDoc(doc(db, 'users', userId, 'history', entryId));
+}
+
+export async function clearHistoryEntries(userId: string): Promise<void> {
+  const snap = await getDocs(collection(db, 'users', userId, 'history'));
+  // A batch holds at most 500 writes
+  for (let i = 0; i < snap.docs.length; i += 500) {
+    const batch = writeBatch(db);
+    for (const d of snap.docs.slice(i, i + 500)) {
+      batch.delete(d.ref);
+    }
+    await batch.commit();
+  }
+}
+
+// ============================================================
+// RESUME POSITIONS
+// ============================================================
+export async function saveResumePosition(userId: string, position: ResumePosition): Promise<void> {
+  await setDoc(doc(db, 'users', userId, 'positions', position.trackId), position);
+}
+
+export async function getResumePosition(userId: string, trackId: string): Promise<ResumePosition | null> {
+  const snap = await getDoc(doc(db, 'users', userId, 'positions', trackId));
+  return snap.exists() ? (snap.data() as ResumePosition) : null;
+}
+
+// ============================================================
+// PLAY COUNTS (aggregated by scripts/import-music/aggregate-plays.ts)
+// ============================================================
+export async function getTrendingTracks(window: PlayWindow = 'week', limitCount = 8): Promise<Track[]> {
+  const q = query(
+    collection(db, 'tracks'),
+    where(`plays.${window}`, '>', 0),
+    orderBy(`plays.${window}`, 'desc'),
+    limit(limitCount)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map(d => docToTrack(d.id, d.data()));
+}
+
+export async function getPopularArtists(limitCount = 8): Promise<Artist[]> {
+  const q = query(
+    collection(db, 'artists'),
+    where('monthlyListeners', '>', 0),
+    orderBy('monthlyListeners', 'desc'),
+    limit(limitCount)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map(d => docToArtist(d.id, d.data()));
+}
+
+export async function getArtistByName(artistName: string): Promise<Artist | null> {
+  const q = query(collection(db, 'artists'), where('name', '==', artistName), limit(1));
+  const snap = await getDocs(q);
+  return snap.empty ? null : docToArtist(snap.docs[0].id, snap.docs[0].data());
+}
+
+// ============================================================
+// PLAYBACK REPORTS (unplayable tracks, for admins to fix)
+// ============================================================
+export async function reportUnplayableTrack(
+  userId: string,
+  track: Track,
+  reason: PlaybackErrorReason,
+  message = ''
+): Promise<void> {
+  // One document per track; each listener's first report bumps the count
+  try {
+    await setDoc(doc(db, 'playbackReports', track.id), {
+      trackId: track.id,
+      title: track.title.slice(0, 500),
+      artist: track.artist.slice(0, 500),
+      audioUrl: (track.audioUrl || '').slice(0, 2000),
+      reason,
+      lastError: message.slice(0, 500),
+      count: increment(1),
+      reportedBy: arrayUnion(userId),
+      lastReportedAt: serverTimestamp(),
+    }, { merge: true });
+  } catch (e) {
+    // The rules refuse a listener's repeat report, e.g. from an earlier session
+    if ((e as { code?: string }).code !== 'permission-denied') throw e;
+  }
+}
+
 // ============================================================
 // SEARCH (basic text search via Firestore)
 // ============================================================
@@ -236,6 +403,7 @@ function docToPlaylist(id: string, data: any): Playlist {
     title: data.title || '',
     description: data.description || '',
     artwork: data.artwork || '',
+    ...(data.artworkVariants ? { artworkVariants: data.artworkVariants } : {}),
     trackIds: data.trackIds || [],
     createdBy: data.createdBy || '',
     isPublic: data.isPublic ?? true,
@@ -244,6 +412,18 @@ function docToPlaylist(id: string, data: any): Playlist {
   };
 }
 
+function docToArtist(id: string, data: any): Artist {
+  return {
+    id,
+    name: data.name || '',
+    image: data.image || '',
+    bio: data.bio || '',
+    monthlyListeners: data.monthlyListeners || 0,
+    genres: data.genres || [],
+    ...(data.plays ? { plays: data.plays } : {}),
+  };
+}
+
 function docToTrack(id: string, data: any): Track {
   return {
     id,
@@ -254,13 +434,24 @@ function docToTrack(id: string, data: any): Track {
     albumId: data.albumId || '',
     duration: data.duration || 0,
     artwork: data.artwork || '',
+    ...(data.artworkVariants ? { artworkVariants: data.artworkVariants } : {}),
     audioUrl: data.audioUrl || '',
     isLocal: data.isLocal ?? false,
     genre: data.genre || '',
     license: data.license || '',
+    licenseInfo: data.licenseInfo || parseLicense(data.license),
     addedAt: data.addedAt instanceof Timestamp ? data.addedAt.toMillis() : data.addedAt,
     uploadedBy: data.uploadedBy || '',
     uploadedByName: data.uploadedByName || '',
     titleLower: data.titleLower || '',
+    ...(Array.isArray(data.waveform) ? { waveform: data.waveform } : {}),
+    ...(typeof data.gainDb === 'number' ? { gainDb: data.gainDb, peak: data.peak ?? 1 } : {}),
+    ...(typeof data.albumGainDb === 'number'
+      ? { albumGainDb: data.albumGainDb, albumPeak: data.albumPeak ?? 1 }
+      : {}),
+    ...(Array.isArray(data.derivedFrom) && data.derivedFrom.length > 0
+      ? { derivedFrom: data.derivedFrom, derivedFromIds: data.derivedFromIds || [] }
+      : {}),
+    ...(data.plays ? { plays: data.plays } : {}),
   };
 }
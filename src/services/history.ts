@@ -0,0 +1,74 @@
+import { HistoryEntry } from '../types';
+import { loadData, saveData, KEYS } from './storage';
+import {
+  saveHistoryEntry,
+  getHistoryEntries,
+  deleteHistoryEntry as deleteRemoteHistoryEntry,
+  clearHistoryEntries,
+} from './firestore';
+
+const MAX_LOCAL_ENTRIES = 200;
+
+// Start/skip of consecutive tracks land back to back; serialize the local read-modify-writes
+let localWrites: Promise<void> = Promise.resolve();
+
+function updateLocal(update: (entries: HistoryEntry[]) => HistoryEntry[]): Promise<void> {
+  localWrites = localWrites.then(async () => {
+    const entries = (await loadData<HistoryEntry[]>(KEYS.RECENTLY_PLAYED)) || [];
+    await saveData(KEYS.RECENTLY_PLAYED, update(entries));
+  });
+  return localWrites;
+}
+
+function newestFirst(entries: HistoryEntry[]): HistoryEntry[] {
+  return entries.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Saves a new or updated entry on the device and, when signed in, to
+ * `users/{uid}/history`. Failures are logged: history must never break playback.
+ */
+export async function recordHistoryEntry(userId: string | null, entry: HistoryEntry): Promise<void> {
+  await updateLocal(entries =>
+    newestFirst([entry, ...entries.filter(e => e.id !== entry.id)]).slice(0, MAX_LOCAL_ENTRIES)
+  );
+  if (!userId) return;
+  try {
+    await saveHistoryEntry(userId, entry);
+  } catch (e) {
+    console.error('Error saving history entry:', e);
+  }
+}
+
+/** Local and remote history merged, newest first. Falls back to local when offline. */
+export async function getHistory(userId: string | null, limitCount = 100): Promise<HistoryEntry[]> {
+  const local = (await loadData<HistoryEntry[]>(KEYS.RECENTLY_PLAYED)) || [];
+  let remote: HistoryEntry[] = [];
+  if (userId) {
+    try {
+      remote = await getHistoryEntries(userId, limitCount);
+    } catch (e) {
+      console.error('Error loading history:', e);
+    }
+  }
+  const merged = new Map<string, HistoryEntry>();
+  for (const entry of [...remote, ...local]) {
+    merged.set(entry.id, entry);
+  }
+  return newestFirst([...merged.values()]).slice(0, limitCount);
+}
+
+export async function deleteHistoryEntry(userId: string | null, entryId: string): Promise<void> {
+  await updateLocal(entries => entries.filter(e => e.id !== entryId));
+  if (userId) await deleteRemoteHistoryEntry(userId, entryId);
+}
+
+export async function clearHistory(userId: string | null): Promise<void> {
+  await updateLocal(() => []);
+  if (userId) await clearHistoryEntries(userId);
+}
+
+/** Distinct track IDs, most recently played first. */
+export function recentTrackIds(entries: HistoryEntry[], count: number): string[] {
+  return [...new Set(entries.map(e => e.trackId))].slice(0, count);
+}
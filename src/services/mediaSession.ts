@@ -0,0 +1,267 @@
+import { Platform } from 'react-native';
+import MediaControl, { Command, PlaybackState, MediaControlEvent } from 'expo-media-control';
+
+export interface NowPlaying {
+  title: string;
+  artist: string;
+  album: string;
+  artwork: string;
+}
+
+export type MediaPlaybackState = 'playing' | 'paused' | 'none';
+
+/** Remote commands from the lock screen, notification, headphones or media keys. */
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  seekTo: (seconds: number) => void;
+}
+
+/**
+ * Publishes now-playing info to the OS/browser and routes its remote commands
+ * back to the player. `PlayerProvider` talks only to this interface.
+ */
+export interface MediaSessionAdapter {
+  setMetadata: (nowPlaying: NowPlaying | null) => void;
+  setPlaybackState: (state: MediaPlaybackState) => void;
+  setPosition: (position: number, duration: number, rate: number) => void;
+  setHandlers: (handlers: MediaSessionHandlers | null) => void;
+}
+
+// Step for the seek-backward/forward commands when the browser or OS doesn't give one
+const DEFAULT_SEEK_OFFSET = 10;
+
+/** The parts of `navigator.mediaSession` the web adapter uses. */
+export type WebMediaSession = Pick<MediaSession, 'metadata' | 'playbackState' | 'setActionHandler' | 'setPositionState'>;
+
+/** The browser Media Session API: media keys, and OS media controls on the web build. */
+export function createWebMediaSession(session: WebMediaSession): MediaSessionAdapter {
+  let lastPosition = 0;
+  let lastDuration = 0;
+
+  function setAction(action: MediaSessionAction, handler: MediaSessionActionHandler | null) {
+    try {
+      session.setActionHandler(action, handler);
+    } catch {
+      // Browsers throw for actions they don't support
+    }
+  }
+
+  return {
+    setMetadata(nowPlaying) {
+      session.metadata = nowPlaying
+        ? new MediaMetadata({
+            title: nowPlaying.title,
+            artist: nowPlaying.artist,
+            album: nowPlaying.album,
+            artwork: nowPlaying.artwork ? [{ src: nowPlaying.artwork }] : [],
+          })
+        : null;
+    },
+
+    setPlaybackState(state) {
+      session.playbackState = state;
+    },
+
+    setPosition(position, duration, rate) {
+      lastPosition = position;
+      lastDuration = duration;
+      if (!session.setPositionState || duration <= 0) return;
+      try {
+        session.setPositionState({
+          duration,
+          position: Math.min(Math.max(0, position), duration),
+          playbackRate: rate,
+        });
+      } catch {
+        // Rejects inconsistent states, e.g. mid track change
+      }
+    },
+
+    setHandlers(handlers) {
+      const seekBy = (offset: number) =>
+        handlers?.seekTo(Math.min(Math.max(0, lastPosition + offset), lastDuration || Infinity));
+
+      setAction('play', handlers ? () => handlers.play() : null);
+      setAction('pause', handlers ? () => handlers.pause() : null);
+      setAction('nexttrack', handlers ? () => handlers.next() : null);
+      setAction('previoustrack', handlers ? () => handlers.previous() : null);
+      setAction('seekto', handlers ? (details) => {
+        if (details.seekTime !== undefined) handlers.seekTo(details.seekTime);
+      } : null);
+      setAction('seekbackward', handlers ? (details) => seekBy(-(details.seekOffset || DEFAULT_SEEK_OFFSET)) : null);
+      setAction('seekforward', handlers ? (details) => seekBy(details.seekOffset || DEFAULT_SEEK_OFFSET) : null);
+    },
+  };
+}
+
+/** The parts of expo-media-control the native adapter calls. */
+export type NativeMediaControl = Pick<
+  typeof MediaControl,
+  'enableMediaControls' | 'updateMetadata' | 'updatePlaybackState' | 'resetControls' | 'addListener'
+>;
+
+const NATIVE_COMMANDS = [
+  Command.PLAY,
+  Command.PAUSE,
+  Command.NEXT_TRACK,
+  Command.PREVIOUS_TRACK,
+  Command.SKIP_FORWARD,
+  Command.SKIP_BACKWARD,
+  Command.SEEK,
+];
+
+const NATIVE_STATES: Record<MediaPlaybackState, PlaybackState> = {
+  playing: PlaybackState.PLAYING,
+  paused: PlaybackState.PAUSED,
+  none: PlaybackState.NONE,
+};
+
+// The OS extrapolates the position from the rate; only resync when it drifts this far
+const NATIVE_POSITION_DRIFT = 2;
+
+/**
+ * Lock screen, Control Center and notification controls on iOS/Android via
+ * expo-media-control. Its calls are async, so they're chained in order and
+ * failures logged rather than thrown.
+ */
+export function createNativeMediaSession(control: NativeMediaControl): MediaSessionAdapter {
+  let handlers: MediaSessionHandlers | null = null;
+  let nowPlaying: NowPlaying | null = null;
+  let playbackState: MediaPlaybackState = 'none';
+  let lastPosition = 0;
+  let lastDuration = 0;
+  let lastRate = 1;
+  // The position and rate last sent, and when
+  let synced: { position: number; rate: number; at: number } | null = null;
+
+  let pending: Promise<unknown> | null = null;
+  function run(call: () => Promise<unknown>) {
+    if (!pending) {
+      pending = control.enableMediaControls({
+        capabilities: NATIVE_COMMANDS,
+        compactCapabilities: [Command.PREVIOUS_TRACK, Command.PLAY, Command.NEXT_TRACK],
+        ios: { skipInterval: DEFAULT_SEEK_OFFSET },
+        android: { skipInterval: DEFAULT_SEEK_OFFSET },
+      });
+      control.addListener(onCommand);
+    }
+    pending = pending.then(call).catch(e => console.error('Error updating media controls:', e));
+  }
+
+  function onCommand(event: MediaControlEvent) {
+    if (!handlers) return;
+    switch (event.command) {
+      case Command.PLAY:
+        handlers.play();
+        break;
+      case Command.PAUSE:
+      case Command.STOP:
+        handlers.pause();
+        break;
+      case Command.NEXT_TRACK:
+        handlers.next();
+        break;
+      case Command.PREVIOUS_TRACK:
+        handlers.previous();
+        break;
+      case Command.SEEK:
+        if (typeof event.data?.position === 'number') handlers.seekTo(event.data.position);
+        break;
+      case Command.SKIP_FORWARD:
+      case Command.SKIP_BACKWARD: {
+        const offset = event.data?.interval || DEFAULT_SEEK_OFFSET;
+        const target = lastPosition + (event.command === Command.SKIP_FORWARD ? offset : -offset);
+        handlers.seekTo(Math.min(Math.max(0, target), lastDuration || Infinity));
+        break;
+      }
+    }
+  }
+
+  function sendMetadata() {
+    if (!nowPlaying) return;
+    const { title, artist, album, artwork } = nowPlaying;
+    run(() => control.updateMetadata({
+      title,
+      artist,
+      album,
+      artwork: artwork ? { uri: artwork } : undefined,
+      duration: lastDuration > 0 ? lastDuration : undefined,
+    }));
+  }
+
+  function currentRate() {
+    return playbackState === 'playing' ? lastRate : 0;
+  }
+
+  function drifted() {
+    if (!synced) return true;
+    const expected = synced.position + ((Date.now() - synced.at) / 1000) * synced.rate;
+    return synced.rate !== currentRate() || Math.abs(expected - lastPosition) >= NATIVE_POSITION_DRIFT;
+  }
+
+  function sendState() {
+    if (!nowPlaying) return;
+    const state = NATIVE_STATES[playbackState];
+    const position = Math.max(0, lastPosition);
+    const rate = currentRate();
+    synced = { position, rate, at: Date.now() };
+    run(() => control.updatePlaybackState(state, position, rate));
+  }
+
+  return {
+    setMetadata(next) {
+      nowPlaying = next;
+      synced = null;
+      if (next) {
+        sendMetadata();
+        sendState();
+      } else if (pending) {
+        run(() => control.resetControls());
+      }
+    },
+
+    setPlaybackState(state) {
+      if (state === playbackState) return;
+      playbackState = state;
+      sendState();
+    },
+
+    setPosition(position, duration, rate) {
+      const durationChanged = duration !== lastDuration;
+      lastPosition = position;
+      lastDuration = duration;
+      lastRate = rate;
+      if (durationChanged) sendMetadata();
+      if (durationChanged || drifted()) sendState();
+    },
+
+    setHandlers(next) {
+      handlers = next;
+    },
+  };
+}
+
+/** Does nothing. Used where neither the browser nor a native module can show media controls. */
+export function createNoopMediaSession(): MediaSessionAdapter {
+  return {
+    setMetadata() {},
+    setPlaybackState() {},
+    setPosition() {},
+    setHandlers() {},
+  };
+}
+
+export function createMediaSession(): MediaSessionAdapter {
+  if (Platform.OS === 'web') {
+    return typeof navigator !== 'undefined' && 'mediaSession' in navigator
+      ? createWebMediaSession(navigator.mediaSession)
+      : createNoopMediaSession();
+  }
+  if (Platform.OS === 'ios' || Platform.OS === 'android') {
+    return createNativeMediaSession(MediaControl);
+  }
+  return createNoopMediaSession();
+}
@@ -0,0 +1,65 @@
+import {
+  MediaSessionAdapter,
+  MediaSessionHandlers,
+  MediaPlaybackState,
+  NowPlaying,
+} from './mediaSession';
+
+export type RemoteCommand =
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'seekTo'; seconds: number };
+
+export interface MockMediaSession extends MediaSessionAdapter {
+  /** What the session currently shows, as the OS would see it. */
+  readonly state: {
+    nowPlaying: NowPlaying | null;
+    playbackState: MediaPlaybackState;
+    position: number;
+    duration: number;
+    rate: number;
+  };
+  /** Simulates a lock screen / headphone / media key command. False when no handlers are set. */
+  send: (command: RemoteCommand) => boolean;
+}
+
+/** In-memory media session for tests: pass it to `PlayerProvider` as `mediaSession`. */
+export function createMockMediaSession(): MockMediaSession {
+  let handlers: MediaSessionHandlers | null = null;
+  const state: MockMediaSession['state'] = {
+    nowPlaying: null,
+    playbackState: 'none',
+    position: 0,
+    duration: 0,
+    rate: 1,
+  };
+
+  return {
+    state,
+    setMetadata(nowPlaying) {
+      state.nowPlaying = nowPlaying;
+    },
+    setPlaybackState(playbackState) {
+      state.playbackState = playbackState;
+    },
+    setPosition(position, duration, rate) {
+      state.position = position;
+      state.duration = duration;
+      state.rate = rate;
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    send(command) {
+      if (!handlers) return false;
+      if (command.type === 'seekTo') {
+        handlers.seekTo(command.seconds);
+      } else {
+        handlers[command.type]();
+      }
+      return true;
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { ResumePosition, Track } from '../types';
+import { loadData, saveData, KEYS } from './storage';
+import {
+  saveResumePosition as saveRemotePosition,
+  getResumePosition as getRemotePosition,
+} from './firestore';
+
+/** Tracks at least this long (mixes, live sets) remember where they were left. */
+export const RESUMABLE_MIN_SECONDS = 20 * 60;
+export const FINISHED_FRACTION = 0.95;
+
+const MAX_LOCAL_POSITIONS = 100;
+
+type LocalPositions = Record<string, ResumePosition>;
+
+let localWrites: Promise<void> = Promise.resolve();
+
+export function isResumable(track: Track): boolean {
+  return track.duration >= RESUMABLE_MIN_SECONDS;
+}
+
+export function resumePosition(trackId: string, position: number, duration: number): ResumePosition {
+  return {
+    trackId,
+    position: Math.floor(position),
+    duration: Math.floor(duration),
+    finished: duration > 0 && position >= duration * FINISHED_FRACTION,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Saves the position on the device and, when signed in, to
+ * `users/{uid}/positions`. Failures are logged: bookmarks must never break playback.
+ */
+export async function saveResumePosition(userId: string | null, position: ResumePosition): Promise<void> {
+  localWrites = localWrites.then(async () => {
+    const positions = (await loadData<LocalPositions>(KEYS.RESUME_POSITIONS)) || {};
+    positions[position.trackId] = position;
+    // Keep the most recently updated ones
+    const kept = Object.values(positions)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_LOCAL_POSITIONS);
+    await saveData(KEYS.RESUME_POSITIONS, Object.fromEntries(kept.map(p => [p.trackId, p])));
+  });
+  await localWrites;
+  if (!userId) return;
+  try {
+    await saveRemotePosition(userId, position);
+  } catch (e) {
+    console.error('Error saving resume position:', e);
+  }
+}
+
+/** The newer of the cached and the remote position (another device may have played it since). */
+export async function getResumePosition(userId: string | null, trackId: string): Promise<ResumePosition | null> {
+  const positions = (await loadData<LocalPositions>(KEYS.RESUME_POSITIONS)) || {};
+  const local = positions[trackId] || null;
+  if (!userId) return local;
+  try {
+    const remote = await getRemotePosition(userId, trackId);
+    if (remote && (!local || remote.updatedAt > local.updatedAt)) return remote;
+  } catch (e) {
+    console.error('Error loading resume position:', e);
+  }
+  return local;
+}
@@ -0,0 +1,115 @@
+import { Track, LicenseInfo } from '../types';
+import {
+  getTracksByArtist,
+  getTracksByGenre,
+  getTracksByLicenseTerms,
+  getPublicPlaylistsWith,
+  getTracksByIds,
+} from './firestore';
+import { trackLicense, isKnownLicense } from '../utils/license';
+
+// What each kind of similarity adds to a candidate's score; playlists someone
+// put together say more than shared metadata
+const PLAYLIST_WEIGHT = 3;
+const ARTIST_WEIGHT = 2;
+const GENRE_WEIGHT = 1.5;
+const LICENSE_WEIGHT = 0.5;
+
+// Tracks fetched per artist/genre/license query
+const CANDIDATES_PER_QUERY = 30;
+// Co-occurring tracks looked up, highest scored first
+const MAX_PLAYLIST_CANDIDATES = 30;
+// Keeps a batch from being one artist's discography
+const MAX_PER_ARTIST = 2;
+
+interface Candidate {
+  track?: Track;
+  score: number;
+}
+
+/**
+ * Tracks similar to `seeds`, best first: ones that share public playlists with
+ * them, then the same artist, genre and license terms. Never returns tracks in
+ * `exclude` or without audio. A failed query only loses its share of candidates.
+ */
+export async function getRadioTracks(seeds: Track[], exclude: Set<string>, count: number): Promise<Track[]> {
+  const candidates = new Map<string, Candidate>();
+  const seedIds = new Set(seeds.map(s => s.id));
+
+  function add(id: string, score: number, track?: Track) {
+    if (seedIds.has(id) || exclude.has(id)) return;
+    const candidate = candidates.get(id) || { score: 0 };
+    candidate.score += score;
+    if (track) candidate.track = track;
+    candidates.set(id, candidate);
+  }
+
+  function addAll(tracks: Track[], score: number) {
+    for (const track of tracks) add(track.id, score, track);
+  }
+
+  const artists = unique(seeds.map(s => s.artist).filter(Boolean));
+  const genres = unique(seeds.map(s => s.genre).filter(Boolean));
+  const licenses = new Map(
+    seeds.map(trackLicense).filter(isKnownLicense).map(info => [licenseTerms(info), info])
+  );
+
+  const results = await Promise.allSettled([
+    getPublicPlaylistsWith([...seedIds]).then(playlists => {
+      for (const playlist of playlists) {
+        for (const id of playlist.trackIds) add(id, PLAYLIST_WEIGHT);
+      }
+    }),
+    ...artists.map(artist => getTracksByArtist(artist).then(tracks => addAll(tracks, ARTIST_WEIGHT))),
+    ...genres.map(genre =>
+      getTracksByGenre(genre, CANDIDATES_PER_QUERY).then(tracks => addAll(tracks, GENRE_WEIGHT))
+    ),
+    ...[...licenses.values()].map(info =>
+      getTracksByLicenseTerms(info, CANDIDATES_PER_QUERY).then(tracks => addAll(tracks, LICENSE_WEIGHT))
+    ),
+  ]);
+  for (const result of results) {
+    if (result.status === 'rejected') console.error('Error loading autoplay candidates:', result.reason);
+  }
+
+  // Only playlists named these; fetch the best of them
+  const missing = [...candidates.entries()]
+    .filter(([, c]) => !c.track)
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, MAX_PLAYLIST_CANDIDATES)
+    .map(([id]) => id);
+  try {
+    for (const track of await getTracksByIds(missing)) {
+      candidates.get(track.id)!.track = track;
+    }
+  } catch (e) {
+    console.error('Error loading autoplay candidates:', e);
+  }
+
+  // A little noise so the same seeds don't always give the same batch
+  const ranked = [...candidates.values()]
+    .filter((c): c is Required<Candidate> => !!c.track?.audioUrl)
+    .map(c => ({ track: c.track, score: c.score + Math.random() }))
+    .sort((a, b) => b.score - a.score)
+    .map(c => c.track);
+
+  const picked: Track[] = [];
+  const perArtist = new Map<string, number>();
+  for (const track of ranked) {
+    if (picked.length >= count) break;
+    const n = perArtist.get(track.artist) || 0;
+    if (n >= MAX_PER_ARTIST) continue;
+    perArtist.set(track.artist, n + 1);
+    picked.push(track);
+  }
+  return picked;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+// The same terms under any version or port count as one license family
+function licenseTerms(info: LicenseInfo): string {
+  return [info.attribution, info.shareAlike, info.nonCommercial, info.noDerivatives].join(',');
+}
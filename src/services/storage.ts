@@ -8,6 +8,9 @@ const KEYS = {
   RECENT_SEARCHES: '@spotfly_recent_searches',
   RECENTLY_PLAYED: '@spotfly_recently_played',
   QUEUE: '@spotfly_queue',
+  PLAYER_SETTINGS: '@spotfly_player_settings',
+  PLAYBACK_RATES: '@spotfly_playback_rates',
+  RESUME_POSITIONS: '@spotfly_resume_positions',
 };
 
 export async function saveData<T>(key: string, data: T): Promise<void> {
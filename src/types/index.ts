@@ -1,3 +1,39 @@
+export interface LicenseInfo {
+  code: string; // SPDX id (CC-BY-SA-4.0, CC0-1.0) or LicenseRef-* when there is none
+  version: string | null;
+  jurisdiction: string | null; // ported CC licenses, e.g. 'br' for by-sa/3.0/br
+  attribution: boolean;
+  shareAlike: boolean;
+  nonCommercial: boolean;
+  noDerivatives: boolean;
+  url: string | null; // canonical deed URL
+}
+
+/** Reuse permissions a listener can filter tracks by. */
+export type LicenseFilter = 'commercial' | 'remix' | 'noShareAlike';
+
+/** Why a source's license doesn't allow a derivative under the chosen license. */
+export type LicenseConflict = 'unknown' | 'noDerivatives' | 'shareAlike' | 'nonCommercial';
+
+export type DerivationKind = 'remix' | 'sample' | 'cover' | 'stem';
+
+export interface TrackSource {
+  trackId: string;
+  relation: DerivationKind;
+}
+
+/** Counted plays over the last 1, 7 and 30 days, written by the aggregate-plays script. */
+export interface PlayCounts {
+  day: number;
+  week: number;
+  month: number;
+}
+
+export type PlayWindow = keyof PlayCounts;
+
+export type ArtworkSize = 64 | 300 | 640;
+export type ArtworkVariants = Partial<Record<ArtworkSize, string>>; // resized artwork URLs by width
+
 export interface Track {
   id: string;
   title: string;
@@ -7,14 +43,25 @@ export interface Track {
   albumId?: string;
   duration: number; // seconds
   artwork: string;
+  artworkVariants?: ArtworkVariants;
   audioUrl: string;
   isLocal: boolean;
   genre: string;
   license: string;
+  licenseInfo?: LicenseInfo;
   addedAt?: number;
   uploadedBy?: string;
   uploadedByName?: string;
   titleLower?: string;
+  waveform?: number[]; // normalized 0–1 peaks, when the importer computed them
+  gainDb?: number; // ReplayGain-style gain to the -18 LUFS reference
+  peak?: number; // linear true peak
+  albumGainDb?: number;
+  albumPeak?: number;
+  derivedFrom?: TrackSource[]; // tracks this one builds on
+  derivedFromIds?: string[]; // derivedFrom track IDs, for array-contains queries
+  plays?: PlayCounts;
+  autoplay?: boolean; // queued by autoplay when the listener's queue ran out
 }
 
 export interface Album {
@@ -33,8 +80,9 @@ export interface Artist {
   name: string;
   image: string;
   bio: string;
-  monthlyListeners: number;
+  monthlyListeners: number; // distinct listeners over the last 30 days
   genres: string[];
+  plays?: PlayCounts;
 }
 
 export interface Playlist {
@@ -42,6 +90,7 @@ export interface Playlist {
   title: string;
   description: string;
   artwork: string;
+  artworkVariants?: ArtworkVariants;
   trackIds: string[];
   createdBy: string;
   isPublic: boolean;
@@ -59,6 +108,28 @@ export interface User {
 
 export type RepeatMode = 'off' | 'all' | 'one';
 
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+export interface PlayerSettings {
+  normalization: NormalizationMode;
+  crossfadeSeconds: number; // 0 = gapless
+  autoplay: boolean; // keep playing similar tracks when the queue ends
+}
+
+/** Whether a chosen playback speed is remembered for the track or its whole album. */
+export type RateScope = 'track' | 'album';
+
+// Remembered speeds keyed by `track:<id>` / `album:<albumId or name>`
+export type PlaybackRates = Record<string, number>;
+
+export type SleepTimerMode = 'duration' | 'endOfTrack' | 'endOfAlbum';
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  endsAt?: number; // wall-clock ms for 'duration', so the timer keeps time while backgrounded
+  album?: string; // albumId (or album name) for 'endOfAlbum'
+}
+
 export interface PlayerState {
   currentTrack: Track | null;
   isPlaying: boolean;
@@ -70,6 +141,39 @@ export interface PlayerState {
   repeat: RepeatMode;
 }
 
+/** One listen of a track, updated as it passes the play events. */
+export interface HistoryEntry {
+  id: string;
+  trackId: string;
+  title: string; // snapshot, so history renders without fetching tracks
+  artist: string;
+  artwork: string;
+  startedAt: number;
+  listenedSeconds: number;
+  counted: boolean; // passed the counted-play threshold
+  endedBy?: 'complete' | 'skip';
+}
+
+/** Where a listener stopped in a long track, to offer resuming from there. */
+export interface ResumePosition {
+  trackId: string;
+  position: number; // seconds
+  duration: number;
+  finished: boolean; // passed 95%; starts from the top next time
+  updatedAt: number;
+}
+
+/** Why a track couldn't be played: it has no audio, or its audio failed to load or play. */
+export type PlaybackErrorReason = 'noAudio' | 'loadFailed';
+
+/** A track the player skipped, for the toast that says so. */
+export interface PlaybackNotice {
+  id: number; // distinguishes repeat failures of the same track
+  track: Track;
+  reason: PlaybackErrorReason;
+  skipped: boolean; // false when nothing playable was left to skip to
+}
+
 export interface SearchResults {
   tracks: Track[];
   albums: Album[];
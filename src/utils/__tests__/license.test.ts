@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { parseLicense, isKnownLicense } from '../license';
+
+describe('parseLicense', () => {
+  it('reads Creative Commons URLs, SPDX ids and deed titles', () => {
+    expect(parseLicense('https://creativecommons.org/licenses/by-nc-sa/3.0/br/').code).toBe('CC-BY-NC-SA-3.0');
+    expect(parseLicense('CC-BY-4.0').code).toBe('CC-BY-4.0');
+    expect(parseLicense('Attribution-ShareAlike 4.0').code).toBe('CC-BY-SA-4.0');
+  });
+
+  it('grants no terms for the old upload label', () => {
+    for (const label of ['Copyleft - Livre para compartilhar', 'Copyleft - Free to share']) {
+      const info = parseLicense(label);
+      expect(info.code).toBe('LicenseRef-Unknown');
+      expect(isKnownLicense(info)).toBe(false);
+      expect(info.url).toBeNull();
+    }
+  });
+});
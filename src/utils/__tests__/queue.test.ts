@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QueueOrder,
+  shuffledIndices,
+  createOrder,
+  reorder,
+  resumeOrder,
+  advance,
+  goBack,
+  appendToOrder,
+  removeFromOrder,
+  currentIndex,
+} from '../queue';
+
+// Deterministic stand-in for Math.random
+function seeded(seed = 1): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
+
+function sorted(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b);
+}
+
+/** Queue indices played, in order, from the current one until the order runs out. */
+function playThrough(state: QueueOrder, shuffle: boolean): number[] {
+  const played = [currentIndex(state)];
+  let next = advance(state, 'off', shuffle);
+  while (next) {
+    played.push(currentIndex(next));
+    next = advance(next, 'off', shuffle);
+  }
+  return played;
+}
+
+describe('shuffledIndices', () => {
+  it('is a permutation with the requested first index', () => {
+    const order = shuffledIndices(10, 7, seeded());
+    expect(order[0]).toBe(7);
+    expect(sorted(order)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('ignores a first index outside the queue', () => {
+    expect(sorted(shuffledIndices(4, 9, seeded()))).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('createOrder', () => {
+  it('plays in queue order from the current track', () => {
+    const state = createOrder(5, 2, false);
+    expect(state.order).toEqual([0, 1, 2, 3, 4]);
+    expect(currentIndex(state)).toBe(2);
+  });
+
+  it('starts a shuffled order with the current track', () => {
+    const state = createOrder(5, 3, true, seeded());
+    expect(state.position).toBe(0);
+    expect(currentIndex(state)).toBe(3);
+    expect(sorted(state.order)).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe('advance', () => {
+  it('moves to the next entry and remembers the current one', () => {
+    const next = advance(createOrder(3, 0, false), 'off', false)!;
+    expect(currentIndex(next)).toBe(1);
+    expect(next.history).toEqual([0]);
+  });
+
+  it('returns null at the end of the order without repeat', () => {
+    expect(advance(createOrder(3, 2, false), 'off', false)).toBeNull();
+    expect(advance(createOrder(3, 2, false), 'one', false)).toBeNull();
+  });
+
+  it('returns null for an empty queue', () => {
+    expect(advance(createOrder(0, 0, false), 'all', false)).toBeNull();
+  });
+
+  it('wraps to the start with repeat-all', () => {
+    const next = advance(createOrder(3, 2, false), 'all', false)!;
+    expect(next.order).toEqual([0, 1, 2]);
+    expect(currentIndex(next)).toBe(0);
+    expect(next.history).toEqual([2]);
+  });
+
+  it('re-shuffles on wrap without replaying the last track first', () => {
+    const random = seeded(42);
+    for (let run = 0; run < 50; run++) {
+      const state = createOrder(4, 0, true, random);
+      const last = { ...state, position: state.order.length - 1 };
+      const next = advance(last, 'all', true, random)!;
+      expect(next.position).toBe(0);
+      expect(sorted(next.order)).toEqual([0, 1, 2, 3]);
+      expect(currentIndex(next)).not.toBe(currentIndex(last));
+    }
+  });
+
+  it('plays every track once per shuffled pass', () => {
+    const state = createOrder(8, 5, true, seeded(7));
+    expect(sorted(playThrough(state, true))).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+});
+
+describe('goBack', () => {
+  it('returns to the previously played track', () => {
+    const second = advance(createOrder(3, 0, false), 'off', false)!;
+    const third = advance(second, 'off', false)!;
+    const back = goBack(third)!;
+    expect(currentIndex(back)).toBe(1);
+    expect(back.history).toEqual([0]);
+    expect(currentIndex(goBack(back)!)).toBe(0);
+  });
+
+  it('returns null when nothing was played before', () => {
+    expect(goBack(createOrder(3, 0, false))).toBeNull();
+  });
+
+  it('follows the shuffled order back, not the queue order', () => {
+    const state = createOrder(6, 4, true, seeded(3));
+    const next = advance(state, 'off', true)!;
+    expect(currentIndex(goBack(next)!)).toBe(4);
+  });
+
+  it('steps back across a repeat-all wrap', () => {
+    const last = createOrder(3, 2, false);
+    const wrapped = advance(last, 'all', false)!;
+    expect(currentIndex(goBack(wrapped)!)).toBe(2);
+  });
+});
+
+describe('reorder', () => {
+  it('keeps the current track and the back stack when shuffle is toggled', () => {
+    const played = advance(createOrder(5, 0, false), 'off', false)!;
+    const shuffled = reorder(played, 1, true, seeded());
+    expect(currentIndex(shuffled)).toBe(1);
+    expect(shuffled.history).toEqual([0]);
+    const unshuffled = reorder(shuffled, 1, false);
+    expect(unshuffled.order).toEqual([0, 1, 2, 3, 4]);
+    expect(currentIndex(unshuffled)).toBe(1);
+  });
+});
+
+describe('appendToOrder', () => {
+  it('plays a track appended while shuffled after everything already ordered', () => {
+    const state = createOrder(4, 2, true, seeded(5));
+    const appended = appendToOrder(state, 4);
+    expect(appended.order.slice(0, 4)).toEqual(state.order);
+    expect(appended.order[4]).toBe(4);
+    expect(playThrough(appended, true).at(-1)).toBe(4);
+  });
+
+  it('keeps the current track', () => {
+    const state = createOrder(3, 1, false);
+    expect(currentIndex(appendToOrder(state, 3))).toBe(1);
+  });
+});
+
+describe('removeFromOrder', () => {
+  it('shifts later indices down and keeps the current track', () => {
+    const state = createOrder(5, 3, false);
+    const removed = removeFromOrder(state, 1);
+    expect(removed.order).toEqual([0, 1, 2, 3]);
+    expect(currentIndex(removed)).toBe(2); // was queue index 3
+  });
+
+  it('makes the next entry current when the current track is removed', () => {
+    const removed = removeFromOrder(createOrder(4, 1, false), 1);
+    expect(removed.position).toBe(1);
+    expect(currentIndex(removed)).toBe(1); // was queue index 2
+  });
+
+  it('keeps a valid position when the current track is first', () => {
+    const state = createOrder(3, 0, false);
+    const removed = removeFromOrder(state, 0);
+    expect(removed.position).toBe(0);
+    expect(currentIndex(removed)).toBe(0); // was queue index 1
+  });
+
+  it('keeps a valid position when the current track is first in a shuffled order', () => {
+    const state = createOrder(5, 2, true, seeded(9));
+    const removed = removeFromOrder(state, 2);
+    expect(removed.position).toBe(0);
+    expect(currentIndex(removed)).not.toBe(-1);
+  });
+
+  it('falls back to the new last entry when the current track was last', () => {
+    const removed = removeFromOrder(createOrder(3, 2, false), 2);
+    expect(removed.position).toBe(1);
+    expect(currentIndex(removed)).toBe(1);
+  });
+
+  it('drops the removed track from the back stack', () => {
+    const played = advance(advance(createOrder(4, 0, false), 'off', false)!, 'off', false)!;
+    const removed = removeFromOrder(played, 0);
+    expect(removed.history).toEqual([0]); // queue index 1, shifted down
+    expect(currentIndex(removed)).toBe(1);
+  });
+});
+
+describe('resumeOrder', () => {
+  it('restores a saved order at the current track', () => {
+    const resumed = resumeOrder([2, 0, 3, 1], 4, 3, true);
+    expect(resumed.order).toEqual([2, 0, 3, 1]);
+    expect(resumed.position).toBe(2);
+    expect(resumed.history).toEqual([]);
+  });
+
+  it('builds a new order when none was saved', () => {
+    const resumed = resumeOrder(undefined, 3, 1, false);
+    expect(resumed.order).toEqual([0, 1, 2]);
+    expect(currentIndex(resumed)).toBe(1);
+  });
+
+  it('builds a new order when the saved one no longer matches the queue', () => {
+    for (const saved of [[0, 1], [0, 1, 1], [0, 1, 5], [0, 1.5, 2]]) {
+      const resumed = resumeOrder(saved, 3, 2, false);
+      expect(resumed.order).toEqual([0, 1, 2]);
+      expect(currentIndex(resumed)).toBe(2);
+    }
+  });
+});
@@ -0,0 +1,23 @@
+import { PixelRatio } from 'react-native';
+import { ArtworkVariants, ArtworkSize } from '../types';
+
+// Keep in sync with ARTWORK_SIZES in scripts/import-music/thumbnails.ts
+export const ARTWORK_SIZES: ArtworkSize[] = [64, 300, 640];
+
+/**
+ * Smallest artwork variant at least `size` dp wide on this screen, or the
+ * full-size image when there is no variant that big.
+ */
+export function artworkFor(
+  artwork: string,
+  variants: ArtworkVariants | undefined,
+  size: number
+): string {
+  if (!variants) return artwork;
+  const pixels = PixelRatio.getPixelSizeForLayoutSize(size);
+  const available = ARTWORK_SIZES.filter(s => variants[s]);
+  if (available.length === 0) return artwork;
+  const fit = available.find(s => s >= pixels);
+  // Nothing big enough: the original beats upscaling the largest variant
+  return fit ? variants[fit]! : artwork;
+}
@@ -0,0 +1,39 @@
+import { NormalizationMode, Track, RateScope, PlaybackRates } from '../types';
+
+/**
+ * Playback volume (0–1) for a track under the given normalization mode.
+ * expo-av can't amplify, so positive gains stop at full volume; tracks whose
+ * true peak is above 0 dBFS are turned down to avoid clipping.
+ */
+export function normalizationVolume(track: Track, mode: NormalizationMode): number {
+  if (mode === 'off') return 1;
+
+  const useAlbum = mode === 'album' && track.albumGainDb !== undefined;
+  const gainDb = useAlbum ? track.albumGainDb : track.gainDb;
+  const peak = useAlbum ? track.albumPeak : track.peak;
+  if (gainDb === undefined) return 1;
+
+  let volume = Math.pow(10, gainDb / 20);
+  if (peak && peak > 0) volume = Math.min(volume, 1 / peak);
+  return Math.max(0, Math.min(1, volume));
+}
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+export function rateKey(track: Track, scope: RateScope): string {
+  return scope === 'track' ? `track:${track.id}` : `album:${track.albumId || track.album}`;
+}
+
+/** Scope the track's remembered speed comes from: its own, else its album's. */
+export function rateScopeFor(rates: PlaybackRates, track: Track): RateScope | null {
+  if (rates[rateKey(track, 'track')] !== undefined) return 'track';
+  if ((track.albumId || track.album) && rates[rateKey(track, 'album')] !== undefined) return 'album';
+  return null;
+}
+
+export function rememberedRate(rates: PlaybackRates, track: Track): number {
+  const scope = rateScopeFor(rates, track);
+  return scope ? rates[rateKey(track, scope)] : 1;
+}
@@ -0,0 +1,100 @@
+import { Track } from '../types';
+import { trackLicense, trackLicenseLabel } from './license';
+
+export type CreditsFormat = 'text' | 'markdown' | 'html';
+
+/** Localized connecting words of a credit line. */
+export interface CreditsPhrases {
+  by: string;
+  licensedUnder: string;
+}
+
+interface Credit {
+  title: string;
+  author: string;
+  sourceUrl: string | null;
+  license: string;
+  licenseUrl: string | null;
+}
+
+// Archive ids are archive-<identifier>-<10-char file hash>
+const ARCHIVE_HASH_SUFFIX = 11;
+
+/** Public page of the track at the catalog it was imported from, when there is one. */
+export function trackSourceUrl(track: Track): string | null {
+  if (track.id.startsWith('jamendo-')) {
+    return `https://www.jamendo.com/track/${track.id.slice('jamendo-'.length)}`;
+  }
+  if (track.id.startsWith('archive-')) {
+    return `https://archive.org/details/${track.id.slice('archive-'.length, -ARCHIVE_HASH_SUFFIX)}`;
+  }
+  return null;
+}
+
+function toCredit(track: Track): Credit {
+  return {
+    title: track.title,
+    author: track.artist,
+    sourceUrl: trackSourceUrl(track),
+    license: trackLicenseLabel(track),
+    licenseUrl: trackLicense(track).url,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]()#|<>])/g, '\\$1');
+}
+
+function textLine(c: Credit, p: CreditsPhrases): string {
+  const source = c.sourceUrl ? ` (${c.sourceUrl})` : '';
+  const license = c.licenseUrl ? `${c.license} (${c.licenseUrl})` : c.license;
+  return `"${c.title}" ${p.by} ${c.author}${source}, ${p.licensedUnder} ${license}`;
+}
+
+function markdownLine(c: Credit, p: CreditsPhrases): string {
+  const title = `"${escapeMarkdown(c.title)}"`;
+  const license = escapeMarkdown(c.license);
+  return `- ${c.sourceUrl ? `[${title}](${c.sourceUrl})` : title} ${p.by} ${escapeMarkdown(c.author)}, ` +
+    `${p.licensedUnder} ${c.licenseUrl ? `[${license}](${c.licenseUrl})` : license}`;
+}
+
+function htmlLine(c: Credit, p: CreditsPhrases): string {
+  const title = `&quot;${escapeHtml(c.title)}&quot;`;
+  const license = escapeHtml(c.license);
+  return `  <li>${c.sourceUrl ? `<a href="${escapeHtml(c.sourceUrl)}">${title}</a>` : title} ` +
+    `${p.by} ${escapeHtml(c.author)}, ${p.licensedUnder} ` +
+    `${c.licenseUrl ? `<a href="${escapeHtml(c.licenseUrl)}">${license}</a>` : license}</li>`;
+}
+
+/**
+ * Attribution for every track in TASL form (Title, Author, Source, License),
+ * one line per track, under `heading`. Duplicate tracks are credited once.
+ */
+export function formatCredits(
+  tracks: Track[],
+  format: CreditsFormat,
+  heading: string,
+  phrases: CreditsPhrases
+): string {
+  const seen = new Set<string>();
+  const credits = tracks
+    .filter(track => !seen.has(track.id) && seen.add(track.id))
+    .map(toCredit);
+
+  switch (format) {
+    case 'text':
+      return [heading, '', ...credits.map(c => textLine(c, phrases))].join('\n');
+    case 'markdown':
+      return [`## ${escapeMarkdown(heading)}`, '', ...credits.map(c => markdownLine(c, phrases))].join('\n');
+    case 'html':
+      return [`<h2>${escapeHtml(heading)}</h2>`, '<ul>', ...credits.map(c => htmlLine(c, phrases)), '</ul>'].join('\n');
+  }
+}
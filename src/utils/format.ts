@@ -3,3 +3,7 @@ export function formatDuration(seconds: number): string {
   const secs = seconds % 60;
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
+
+export function formatRate(rate: number): string {
+  return `${rate}×`;
+}
@@ -0,0 +1,206 @@
+import { LicenseInfo, LicenseFilter, LicenseConflict } from '../types';
+
+// Pure module: also imported by scripts/import-music, so no React Native here.
+
+type CcModule = 'by' | 'sa' | 'nc' | 'nd';
+
+const UNKNOWN_CODE = 'LicenseRef-Unknown';
+const PUBLIC_DOMAIN_CODE = 'LicenseRef-PublicDomain';
+
+/**
+ * The upload screen's label before licenses could be picked. It named no
+ * terms, so these tracks stay unknown until their uploader chooses a license.
+ */
+const LEGACY_UPLOAD_LABEL = /^copyleft\b/i;
+
+const TEXT_MODULES: [RegExp, CcModule][] = [
+  [/\b(by|attribution|atribui[cç][aã]o)\b/i, 'by'],
+  [/\b(sa|share-?alike|compartilha ?igual)\b/i, 'sa'],
+  [/\b(nc|non-?commercial|n[aã]o ?comercial)\b/i, 'nc'],
+  [/\b(nd|no-?deriv(s|atives)?|sem ?deriva[cç][oõ]es)\b/i, 'nd'],
+];
+
+function ccInfo(modules: Set<CcModule>, version: string | null, jurisdiction: string | null): LicenseInfo {
+  // Canonical module order: by-nc-sa / by-nc-nd
+  const ordered = (['by', 'nc', 'sa', 'nd'] as CcModule[]).filter(m => modules.has(m));
+  const slug = ordered.join('-');
+  const code = `CC-${slug.toUpperCase()}${version ? `-${version}` : ''}`;
+  return {
+    code,
+    version,
+    jurisdiction,
+    attribution: modules.has('by'),
+    shareAlike: modules.has('sa'),
+    nonCommercial: modules.has('nc'),
+    noDerivatives: modules.has('nd'),
+    url: version
+      ? `https://creativecommons.org/licenses/${slug}/${version}/${jurisdiction ? `${jurisdiction}/` : ''}`
+      : null,
+  };
+}
+
+function cc0(): LicenseInfo {
+  return {
+    code: 'CC0-1.0',
+    version: '1.0',
+    jurisdiction: null,
+    attribution: false,
+    shareAlike: false,
+    nonCommercial: false,
+    noDerivatives: false,
+    url: 'https://creativecommons.org/publicdomain/zero/1.0/',
+  };
+}
+
+function publicDomain(): LicenseInfo {
+  return {
+    code: PUBLIC_DOMAIN_CODE,
+    version: null,
+    jurisdiction: null,
+    attribution: false,
+    shareAlike: false,
+    nonCommercial: false,
+    noDerivatives: false,
+    url: 'https://creativecommons.org/publicdomain/mark/1.0/',
+  };
+}
+
+/** Unrecognized terms: assume the most restrictive CC combination. */
+function unknown(): LicenseInfo {
+  return {
+    code: UNKNOWN_CODE,
+    version: null,
+    jurisdiction: null,
+    attribution: true,
+    shareAlike: false,
+    nonCommercial: true,
+    noDerivatives: true,
+    url: null,
+  };
+}
+
+function parseCcUrl(url: string): LicenseInfo | null {
+  const path = url.replace(/^https?:\/\/(www\.)?creativecommons\.org\//i, '').toLowerCase();
+  if (/^publicdomain\/zero\b/.test(path)) return cc0();
+  if (/^(publicdomain\/mark\b|licenses\/publicdomain\b|publicdomain\/?$)/.test(path)) return publicDomain();
+
+  // licenses/<modules>/<version>/<jurisdiction>/, possibly followed by deed.xx or legalcode
+  const match = path.match(/^licenses\/([a-z+-]+)(?:\/(\d\.\d))?(?:\/([a-z]{2}(?:-[a-z]+)?)(?=[/?#]|$))?/);
+  if (!match) return null;
+  const modules = new Set(match[1].split('-') as CcModule[]);
+  if (![...modules].every(m => ['by', 'sa', 'nc', 'nd'].includes(m))) return null; // sampling+ etc.
+  return ccInfo(modules, match[2] || null, match[3] || null);
+}
+
+function parseText(text: string): LicenseInfo | null {
+  if (/\bcc0\b|\bcc[- ]?zero\b|public ?domain dedication/i.test(text)) return cc0();
+  if (/\bpublic ?domain\b|dom[ií]nio p[uú]blico/i.test(text)) return publicDomain();
+  if (LEGACY_UPLOAD_LABEL.test(text)) return unknown();
+  // Deed titles ("Attribution-ShareAlike 4.0") often omit the "Creative Commons" prefix
+  if (!/\bcc\b|creative ?commons|^(attribution|atribui[cç][aã]o)\b/i.test(text)) return null;
+
+  const modules = new Set<CcModule>();
+  for (const [pattern, module] of TEXT_MODULES) {
+    if (pattern.test(text)) modules.add(module);
+  }
+  // Every CC license since 2.0 requires attribution
+  if (modules.size === 0) return null;
+  modules.add('by');
+  const version = text.match(/\b(1\.0|2\.0|2\.5|3\.0|4\.0)\b/)?.[1] || null;
+  return ccInfo(modules, version, null);
+}
+
+/**
+ * Parses a free-form license (a creativecommons.org URL, an SPDX id such as
+ * CC-BY-SA-4.0, or text like "Attribution-ShareAlike 4.0") into structured
+ * terms. Anything unrecognized comes back as LicenseRef-Unknown.
+ */
+export function parseLicense(raw: string | null | undefined): LicenseInfo {
+  const value = (raw || '').trim();
+  if (!value) return unknown();
+
+  const url = value.match(/https?:\/\/(www\.)?creativecommons\.org\/\S+/i);
+  if (url) {
+    const parsed = parseCcUrl(url[0]);
+    if (parsed) return parsed;
+  }
+
+  const spdx = value.match(/^CC-((?:BY|SA|NC|ND)(?:-(?:BY|SA|NC|ND))*)(?:-(\d\.\d))?(?:-([A-Z]{2}))?$/i);
+  if (spdx) {
+    const modules = new Set(spdx[1].toLowerCase().split('-') as CcModule[]);
+    return ccInfo(modules, spdx[2] || null, spdx[3]?.toLowerCase() || null);
+  }
+  if (/^CC0(-1\.0)?$/i.test(value)) return cc0();
+
+  return parseText(value) || unknown();
+}
+
+export function isKnownLicense(info: LicenseInfo): boolean {
+  return info.code !== UNKNOWN_CODE;
+}
+
+/** Short badge text: "CC BY-SA 4.0", "CC0 1.0", "Public Domain". */
+export function licenseLabel(info: LicenseInfo): string {
+  if (info.code === UNKNOWN_CODE) return '?';
+  if (info.code === PUBLIC_DOMAIN_CODE) return 'Public Domain';
+  if (info.code === 'CC0-1.0') return 'CC0 1.0';
+  const modules = info.code.replace(/^CC-/, '').replace(/-\d\.\d$/, '');
+  const port = info.jurisdiction ? ` ${info.jurisdiction.toUpperCase()}` : '';
+  return `CC ${modules}${info.version ? ` ${info.version}` : ''}${port}`;
+}
+
+/** The structured license of a track, parsing `license` for docs not yet backfilled. */
+export function trackLicense(track: { license: string; licenseInfo?: LicenseInfo }): LicenseInfo {
+  return track.licenseInfo || parseLicense(track.license);
+}
+
+/** Badge text for a track; unrecognized licenses show their raw value. */
+export function trackLicenseLabel(track: { license: string; licenseInfo?: LicenseInfo }): string {
+  const info = trackLicense(track);
+  return isKnownLicense(info) ? licenseLabel(info) : track.license || licenseLabel(info);
+}
+
+/**
+ * Whether the license grants every permission in `filters`. Unknown terms
+ * never match: reuse has to be checked at the source.
+ */
+export function matchesLicenseFilters(info: LicenseInfo, filters: LicenseFilter[]): boolean {
+  if (filters.length === 0) return true;
+  if (!isKnownLicense(info)) return false;
+  return filters.every(filter => {
+    switch (filter) {
+      case 'commercial':
+        return !info.nonCommercial;
+      case 'remix':
+        return !info.noDerivatives;
+      case 'noShareAlike':
+        return !info.shareAlike;
+    }
+  });
+}
+
+function versionAtLeast(version: string | null, minimum: string | null): boolean {
+  if (!minimum) return true;
+  return !!version && parseFloat(version) >= parseFloat(minimum);
+}
+
+/**
+ * Terms of `source` that a derivative released under `target` would break.
+ * ShareAlike sources require a ShareAlike license with the same NC term and
+ * the same or a later version; NonCommercial carries over; NoDerivatives and
+ * unrecognized terms can't be built on at all.
+ */
+export function derivativeConflicts(source: LicenseInfo, target: LicenseInfo): LicenseConflict[] {
+  if (!isKnownLicense(source)) return ['unknown'];
+  if (source.noDerivatives) return ['noDerivatives'];
+
+  const conflicts: LicenseConflict[] = [];
+  if (source.shareAlike) {
+    const compatible = target.shareAlike
+      && target.nonCommercial === source.nonCommercial
+      && versionAtLeast(target.version, source.version);
+    if (!compatible) conflicts.push('shareAlike');
+  }
+  if (source.nonCommercial && !target.nonCommercial) conflicts.push('nonCommercial');
+  return conflicts;
+}
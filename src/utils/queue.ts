@@ -0,0 +1,132 @@
+import { RepeatMode } from '../types';
+
+/**
+ * The order a queue plays in, kept apart from the queue itself so shuffle
+ * never changes what the user queued. `order` holds queue indices; the
+ * current track is `order[position]`.
+ */
+export interface QueueOrder {
+  order: number[];
+  position: number;
+  history: number[]; // queue indices played before the current one, most recent last
+}
+
+const MAX_HISTORY = 500;
+
+/** Fisher–Yates over `0..length-1`, with `first` (when given) moved to the front. */
+export function shuffledIndices(length: number, first?: number, random = Math.random): number[] {
+  const rest = Array.from({ length }, (_, i) => i).filter(i => i !== first);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return first !== undefined && first >= 0 && first < length ? [first, ...rest] : rest;
+}
+
+function linearIndices(length: number): number[] {
+  return Array.from({ length }, (_, i) => i);
+}
+
+/** Fresh order for a new queue starting at `current`. */
+export function createOrder(length: number, current: number, shuffle: boolean, random = Math.random): QueueOrder {
+  if (shuffle) {
+    return { order: shuffledIndices(length, current, random), position: 0, history: [] };
+  }
+  return { order: linearIndices(length), position: Math.max(0, current), history: [] };
+}
+
+/** Rebuilds the order around `current` when shuffle is toggled; "previous" still works. */
+export function reorder(state: QueueOrder, current: number, shuffle: boolean, random = Math.random): QueueOrder {
+  return { ...createOrder(state.order.length, current, shuffle, random), history: state.history };
+}
+
+/**
+ * Restores a saved order, or builds a new one when it no longer matches the
+ * queue (saved by an older version, or the queue changed).
+ */
+export function resumeOrder(
+  saved: number[] | undefined,
+  length: number,
+  current: number,
+  shuffle: boolean
+): QueueOrder {
+  const valid = Array.isArray(saved) &&
+    saved.length === length &&
+    new Set(saved).size === length &&
+    saved.every(i => Number.isInteger(i) && i >= 0 && i < length);
+  if (valid && saved!.includes(current)) {
+    return { order: saved!, position: saved!.indexOf(current), history: [] };
+  }
+  return createOrder(length, current, shuffle);
+}
+
+/**
+ * Moves to the next track. At the end of the order, repeat-all starts over
+ * (re-shuffled when shuffling, without replaying the last track first);
+ * otherwise returns null.
+ */
+export function advance(
+  state: QueueOrder,
+  repeat: RepeatMode,
+  shuffle: boolean,
+  random = Math.random
+): QueueOrder | null {
+  const { order, position } = state;
+  if (order.length === 0) return null;
+
+  const history = position >= 0 && position < order.length
+    ? [...state.history, order[position]].slice(-MAX_HISTORY)
+    : state.history;
+
+  if (position + 1 < order.length) {
+    return { order, position: position + 1, history };
+  }
+  if (repeat !== 'all') return null;
+
+  if (!shuffle) {
+    return { order, position: 0, history };
+  }
+  const last = order[order.length - 1];
+  const next = shuffledIndices(order.length, undefined, random);
+  if (next.length > 1 && next[0] === last) {
+    [next[0], next[1]] = [next[1], next[0]];
+  }
+  return { order: next, position: 0, history };
+}
+
+/** Steps back to the previously played track, or null when there is none. */
+export function goBack(state: QueueOrder): QueueOrder | null {
+  const history = [...state.history];
+  const previous = history.pop();
+  if (previous === undefined) return null;
+  const position = state.order.indexOf(previous);
+  if (position === -1) return null;
+  return { order: state.order, position, history };
+}
+
+/** A track appended to the queue at `index` plays after everything already ordered. */
+export function appendToOrder(state: QueueOrder, index: number): QueueOrder {
+  return { ...state, order: [...state.order, index] };
+}
+
+/**
+ * Drops queue index `index` and shifts the indices after it down by one.
+ * Removing the current track makes the one after it current (or the new last
+ * one, when it was last).
+ */
+export function removeFromOrder(state: QueueOrder, index: number): QueueOrder {
+  const removedAt = state.order.indexOf(index);
+  const shift = (i: number) => (i > index ? i - 1 : i);
+  const order = state.order.filter(i => i !== index).map(shift);
+  const position = removedAt !== -1 && removedAt < state.position ? state.position - 1 : state.position;
+  return {
+    order,
+    position: Math.max(0, Math.min(position, order.length - 1)),
+    history: state.history.filter(i => i !== index).map(shift),
+  };
+}
+
+/** Queue index of the current track, or -1. */
+export function currentIndex(state: QueueOrder): number {
+  return state.order[state.position] ?? -1;
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // The app's tsconfig extends Expo's, which this package doesn't install
+  oxc: { tsconfig: false },
+  test: {
+    include: ['src/**/__tests__/**/*.test.{ts,tsx}', 'scripts/**/__tests__/**/*.test.ts'],
+  },
+});